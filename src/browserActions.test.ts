@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Page } from 'patchright';
+import { validateBrowserActions, runBrowserActions, MAX_ACTIONS } from './browserActions.js';
+
+function mockFrame(name: string, url: string) {
+  const locator = { click: vi.fn().mockResolvedValue(undefined), press: vi.fn().mockResolvedValue(undefined) };
+  return {
+    name: () => name,
+    url: () => url,
+    locator: vi.fn().mockReturnValue({ first: () => locator }),
+    waitForSelector: vi.fn().mockResolvedValue(null),
+    _locator: locator,
+  };
+}
+
+function mockPage(frames: ReturnType<typeof mockFrame>[]) {
+  return {
+    mainFrame: () => frames[0],
+    frames: vi.fn(() => frames),
+    waitForTimeout: vi.fn().mockResolvedValue(undefined),
+    keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+    mouse: { wheel: vi.fn().mockResolvedValue(undefined), click: vi.fn().mockResolvedValue(undefined) },
+  };
+}
+
+describe('validateBrowserActions', () => {
+  it('accepts every action type', () => {
+    expect(validateBrowserActions([
+      { type: 'click', selector: '.close', frame: 'player', timeout: 2000 },
+      { type: 'waitForSelector', selector: 'video', state: 'attached' },
+      { type: 'wait', ms: 1500 },
+      { type: 'press', key: 'Space' },
+      { type: 'scroll', deltaY: 600 },
+      { type: 'clickAt', x: 640, y: 360 },
+    ])).toBeNull();
+  });
+  it.each([
+    ['not a list', '.play', 'must be an array'],
+    ['an unknown type', [{ type: 'hover', selector: 'x' }], 'unknown type "hover"'],
+    ['a click without selector', [{ type: 'click' }], 'actions[0]: invalid click'],
+    ['an unbounded wait', [{ type: 'wait', ms: 60000 }], 'invalid wait'],
+    ['a timeout above the cap', [{ type: 'wait', ms: 1 }, { type: 'click', selector: 'a', timeout: 30000 }], 'actions[1]'],
+    ['too many steps', Array.from({ length: MAX_ACTIONS + 1 }, () => ({ type: 'wait', ms: 1 })), 'at most'],
+  ])('rejects %s', (_label, actions, message) => {
+    expect(validateBrowserActions(actions)).toContain(message);
+  });
+});
+
+describe('runBrowserActions', () => {
+  it('runs steps in order against the named frame, page keyboard and mouse', async () => {
+    const main = mockFrame('', 'https://embed.example.top/e/1');
+    const player = mockFrame('player', 'https://player.example.top/v/1');
+    const page = mockPage([main, player]);
+    await runBrowserActions(
+      page as unknown as Page,
+      [
+        { type: 'click', selector: '.overlay-close' },
+        { type: 'click', selector: '#server-2', frame: 'player.example.top', timeout: 1000 },
+        { type: 'wait', ms: 250 },
+        { type: 'press', key: 'Space' },
+        { type: 'scroll', deltaY: 400 },
+        { type: 'clickAt', x: 10, y: 20 },
+      ],
+      () => false
+    );
+    expect(main.locator).toHaveBeenCalledWith('.overlay-close');
+    expect(player.locator).toHaveBeenCalledWith('#server-2');
+    expect(player._locator.click).toHaveBeenCalledWith({ timeout: 1000 });
+    expect(page.waitForTimeout).toHaveBeenCalledWith(250);
+    expect(page.keyboard.press).toHaveBeenCalledWith('Space');
+    expect(page.mouse.wheel).toHaveBeenCalledWith(0, 400);
+    expect(page.mouse.click).toHaveBeenCalledWith(10, 20);
+  });
+
+  it('keeps going after a failed step', async () => {
+    const main = mockFrame('', 'https://embed.example.top/e/1');
+    main._locator.click.mockRejectedValueOnce(new Error('Timeout 5000ms exceeded'));
+    const page = mockPage([main]);
+    await runBrowserActions(page as unknown as Page, [{ type: 'click', selector: '.ad-close' }, { type: 'clickAt', x: 1, y: 1 }], () => false);
+    expect(page.mouse.click).toHaveBeenCalledOnce();
+  });
+
+  it('gives up on a frame that never attaches once the step times out', async () => {
+    const main = mockFrame('', 'https://embed.example.top/e/1');
+    const page = mockPage([main]);
+    await runBrowserActions(page as unknown as Page, [{ type: 'click', selector: 'x', frame: 'missing', timeout: 1 }], () => false);
+    expect(main.locator).not.toHaveBeenCalled();
+  });
+
+  it('stops once the stream has been found', async () => {
+    const page = mockPage([mockFrame('', 'https://embed.example.top/e/1')]);
+    let found = false;
+    page.waitForTimeout.mockImplementation(async () => { found = true; });
+    await runBrowserActions(page as unknown as Page, [{ type: 'wait', ms: 10 }, { type: 'clickAt', x: 1, y: 1 }], () => found);
+    expect(page.mouse.click).not.toHaveBeenCalled();
+  });
+});
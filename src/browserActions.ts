@@ -0,0 +1,129 @@
+import type { Frame, Page } from 'patchright';
+import consola from 'consola';
+
+/**
+ * One step of a caller-supplied interaction script. `frame` names an iframe
+ * by its `name` attribute or a substring of its URL; omitted means the top
+ * page. Every step is bounded by `timeout` (ms), capped at
+ * MAX_ACTION_TIMEOUT_MS.
+ */
+export type BrowserAction =
+  | { type: 'click'; selector: string; frame?: string; timeout?: number }
+  | { type: 'waitForSelector'; selector: string; frame?: string; state?: 'attached' | 'visible'; timeout?: number }
+  | { type: 'wait'; ms: number }
+  | { type: 'press'; key: string; selector?: string; frame?: string; timeout?: number }
+  | { type: 'scroll'; deltaX?: number; deltaY?: number }
+  | { type: 'clickAt'; x: number; y: number };
+
+export const MAX_ACTIONS = 20;
+export const MAX_ACTION_TIMEOUT_MS = 15000;
+const DEFAULT_ACTION_TIMEOUT_MS = 5000;
+// Frames attach asynchronously; poll for a named one until the step's timeout
+const FRAME_POLL_MS = 100;
+
+const isString = (v: unknown) => typeof v === 'string' && v.length > 0;
+const isOptionalString = (v: unknown) => v === undefined || isString(v);
+const isFiniteNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isTimeout = (v: unknown) => v === undefined || (isFiniteNumber(v) && (v as number) > 0 && (v as number) <= MAX_ACTION_TIMEOUT_MS);
+
+// Per-type field checks; a missing entry means an unknown action type
+const ACTION_FIELDS: Record<BrowserAction['type'], (a: Record<string, unknown>) => boolean> = {
+  click: (a) => isString(a.selector) && isOptionalString(a.frame) && isTimeout(a.timeout),
+  waitForSelector: (a) =>
+    isString(a.selector) &&
+    isOptionalString(a.frame) &&
+    (a.state === undefined || a.state === 'attached' || a.state === 'visible') &&
+    isTimeout(a.timeout),
+  wait: (a) => isFiniteNumber(a.ms) && (a.ms as number) >= 0 && (a.ms as number) <= MAX_ACTION_TIMEOUT_MS,
+  press: (a) => isString(a.key) && isOptionalString(a.selector) && isOptionalString(a.frame) && isTimeout(a.timeout),
+  scroll: (a) => (a.deltaX === undefined || isFiniteNumber(a.deltaX)) && (a.deltaY === undefined || isFiniteNumber(a.deltaY)),
+  clickAt: (a) => isFiniteNumber(a.x) && isFiniteNumber(a.y),
+};
+
+/** Error message for an unusable `actions` list, or null. */
+export function validateBrowserActions(v: unknown): string | null {
+  if (!Array.isArray(v)) return 'actions must be an array';
+  if (v.length > MAX_ACTIONS) return `actions may list at most ${MAX_ACTIONS} steps`;
+  for (const [i, action] of v.entries()) {
+    if (typeof action !== 'object' || action === null) return `actions[${i}] must be an object`;
+    const a = action as Record<string, unknown>;
+    const check = ACTION_FIELDS[a.type as BrowserAction['type']];
+    if (!check) return `actions[${i}]: unknown type ${JSON.stringify(a.type)}`;
+    if (!check(a)) return `actions[${i}]: invalid ${a.type} step (timeouts and waits are capped at ${MAX_ACTION_TIMEOUT_MS}ms)`;
+  }
+  return null;
+}
+
+async function findFrame(page: Page, name: string | undefined, timeout: number): Promise<Frame> {
+  if (!name) return page.mainFrame();
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const frame = page.frames().find((f) => f.name() === name || f.url().includes(name));
+    if (frame) return frame;
+    if (Date.now() >= deadline) throw new Error(`frame ${name} not found`);
+    await page.waitForTimeout(FRAME_POLL_MS);
+  }
+}
+
+// Mouse and keyboard calls take no timeout of their own
+async function bounded<T>(work: Promise<T>, timeout: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeout}ms`)), timeout);
+  });
+  try {
+    return await Promise.race([work, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runAction(page: Page, action: BrowserAction): Promise<void> {
+  const timeout = 'timeout' in action && action.timeout ? action.timeout : DEFAULT_ACTION_TIMEOUT_MS;
+  switch (action.type) {
+    case 'click': {
+      const frame = await findFrame(page, action.frame, timeout);
+      await frame.locator(action.selector).first().click({ timeout });
+      return;
+    }
+    case 'waitForSelector': {
+      const frame = await findFrame(page, action.frame, timeout);
+      await frame.waitForSelector(action.selector, { state: action.state ?? 'visible', timeout });
+      return;
+    }
+    case 'wait':
+      await page.waitForTimeout(action.ms);
+      return;
+    case 'press':
+      if (action.selector) {
+        const frame = await findFrame(page, action.frame, timeout);
+        await frame.locator(action.selector).first().press(action.key, { timeout });
+      } else {
+        await bounded(page.keyboard.press(action.key), timeout);
+      }
+      return;
+    case 'scroll':
+      await bounded(page.mouse.wheel(action.deltaX ?? 0, action.deltaY ?? 0), timeout);
+      return;
+    case 'clickAt':
+      await bounded(page.mouse.click(action.x, action.y), timeout);
+      return;
+  }
+}
+
+/**
+ * Run `actions` in order. A failed step is logged and skipped, like a
+ * missing play button, so an optional "close overlay" step can't stop the
+ * steps after it. Stops early once `done()` reports the stream was found.
+ */
+export async function runBrowserActions(page: Page, actions: BrowserAction[], done: () => boolean): Promise<void> {
+  for (const [i, action] of actions.entries()) {
+    if (done()) return;
+    try {
+      await runAction(page, action);
+      consola.debug(`[Extractor] Action ${i + 1}/${actions.length} ${action.type} done`);
+    } catch (err) {
+      consola.debug(`[Extractor] Action ${i + 1}/${actions.length} ${action.type} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
@@ -6,8 +6,36 @@ const mockBrowser = {
   close: vi.fn().mockResolvedValue(undefined),
   on: vi.fn(),
   newContext: vi.fn().mockResolvedValue({}),
+  contexts: vi.fn().mockReturnValue([]),
 };
 
+// A browser whose contexts() reflects what newContext() opened, for shard load tests
+function createShardBrowser() {
+  const contexts: { route: ReturnType<typeof vi.fn>; close: () => Promise<void> }[] = [];
+  const handlers: Record<string, () => void> = {};
+  return {
+    isConnected: vi.fn().mockReturnValue(true),
+    close: vi.fn().mockResolvedValue(undefined),
+    on: vi.fn((event: string, handler: () => void) => {
+      handlers[event] = handler;
+    }),
+    newContext: vi.fn(async () => {
+      const context = {
+        route: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn(async () => {
+          contexts.splice(contexts.indexOf(context), 1);
+        }),
+      };
+      contexts.push(context);
+      return context;
+    }),
+    contexts: vi.fn(() => contexts),
+    // Test helpers
+    openContexts: contexts,
+    handlers,
+  };
+}
+
 const mockChromium = {
   launch: vi.fn().mockResolvedValue(mockBrowser),
 };
@@ -22,6 +50,7 @@ describe('browserPool', () => {
     vi.useFakeTimers();
     mockBrowser.isConnected.mockReturnValue(true);
     mockBrowser.close.mockResolvedValue(undefined);
+    mockBrowser.contexts.mockReturnValue([]);
     mockChromium.launch.mockResolvedValue(mockBrowser);
   });
 
@@ -398,4 +427,269 @@ describe('browserPool', () => {
       await browserPool.close();
     });
   });
+
+  describe('shards', () => {
+    afterEach(() => {
+      delete process.env.BROWSER_SHARDS;
+    });
+
+    it('places contexts on the least-loaded shard', async () => {
+      process.env.BROWSER_SHARDS = '2';
+      const first = createShardBrowser();
+      const second = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.createContext();
+      await browserPool.createContext();
+      expect(first.newContext).toHaveBeenCalledTimes(1);
+      expect(second.newContext).toHaveBeenCalledTimes(1);
+
+      // first frees its context, so it takes the next one
+      first.openContexts.length = 0;
+      await browserPool.createContext();
+      expect(first.newContext).toHaveBeenCalledTimes(2);
+      expect(mockChromium.launch).toHaveBeenCalledTimes(2);
+
+      await browserPool.close();
+    });
+
+    it('reuses a running shard before launching another when idle', async () => {
+      process.env.BROWSER_SHARDS = '3';
+      const first = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(first);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.createContext();
+      first.openContexts.length = 0;
+      await browserPool.createContext();
+
+      expect(mockChromium.launch).toHaveBeenCalledTimes(1);
+      expect(browserPool.getStatus().shards.map((s) => s.running)).toEqual([true, false, false]);
+
+      await browserPool.close();
+    });
+
+    it('relaunches only the shard whose browser disconnected', async () => {
+      process.env.BROWSER_SHARDS = '2';
+      const first = createShardBrowser();
+      const second = createShardBrowser();
+      const replacement = createShardBrowser();
+      mockChromium.launch
+        .mockResolvedValueOnce(first)
+        .mockResolvedValueOnce(second)
+        .mockResolvedValueOnce(replacement);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.createContext();
+      await browserPool.createContext();
+
+      first.isConnected.mockReturnValue(false);
+      first.handlers.disconnected();
+
+      const status = browserPool.getStatus();
+      expect(status.shards.map((s) => s.running)).toEqual([false, true]);
+
+      await browserPool.createContext();
+      expect(replacement.newContext).toHaveBeenCalledTimes(1);
+      expect(second.close).not.toHaveBeenCalled();
+
+      await browserPool.close();
+    });
+
+    it('drains a shard past max age and restarts it once empty', async () => {
+      process.env.BROWSER_SHARDS = '2';
+      const first = createShardBrowser();
+      const second = createShardBrowser();
+      const replacement = createShardBrowser();
+      mockChromium.launch
+        .mockResolvedValueOnce(first)
+        .mockResolvedValueOnce(second)
+        .mockResolvedValueOnce(replacement);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.createContext();
+      await browserPool.createContext();
+      second.openContexts.length = 0;
+
+      // Past BROWSER_MAX_AGE (2h default) with an extraction still on first
+      vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000 + 1000);
+      expect(browserPool.getStatus().shards.map((s) => s.draining)).toEqual([true, true]);
+
+      // second is empty, so it's recycled; first keeps its in-flight context
+      await browserPool.createContext();
+      expect(second.close).toHaveBeenCalled();
+      expect(first.close).not.toHaveBeenCalled();
+      expect(replacement.newContext).toHaveBeenCalledTimes(1);
+
+      // Once first empties, the next pick recycles it too
+      first.openContexts.length = 0;
+      mockChromium.launch.mockResolvedValueOnce(createShardBrowser());
+      await browserPool.createContext();
+      expect(first.close).toHaveBeenCalled();
+
+      await browserPool.close();
+    });
+
+    it('reports per-shard state in getStatus', async () => {
+      process.env.BROWSER_SHARDS = '2';
+      const first = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(first);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.createContext();
+      vi.advanceTimersByTime(5000);
+
+      expect(browserPool.getStatus().shards).toEqual([
+        { id: 0, running: true, launching: false, contexts: 1, ageMs: 5000, draining: false, warm: 0 },
+        { id: 1, running: false, launching: false, contexts: 0, ageMs: 0, draining: false, warm: 0 },
+      ]);
+
+      await browserPool.close();
+    });
+  });
+
+  describe('warm contexts', () => {
+    afterEach(() => {
+      delete process.env.WARM_CONTEXTS;
+      delete process.env.BROWSER_SHARDS;
+    });
+
+    it('fills the pool on warmUp with routes already installed', async () => {
+      process.env.WARM_CONTEXTS = '2';
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      browserPool.warmUp();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+      for (const context of browser.openContexts) {
+        expect(context.route).toHaveBeenCalledWith('**/*', expect.any(Function));
+      }
+      // Waiting contexts are not extractions
+      expect(browserPool.getStatus().shards[0]).toMatchObject({ contexts: 0, warm: 2 });
+
+      await browserPool.close();
+    });
+
+    it('hands out a warm context and refills in the background', async () => {
+      process.env.WARM_CONTEXTS = '1';
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      browserPool.warmUp();
+      await vi.advanceTimersByTimeAsync(0);
+      const [warm] = browser.openContexts;
+
+      const context = await browserPool.createContext();
+      expect(context).toBe(warm);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(browser.newContext).toHaveBeenCalledTimes(2);
+      expect(browserPool.getStatus().shards[0]).toMatchObject({ contexts: 1, warm: 1 });
+
+      await browserPool.close();
+    });
+
+    it('routes a warm context through the handler given to routeContext', async () => {
+      process.env.WARM_CONTEXTS = '1';
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      browserPool.warmUp();
+      await vi.advanceTimersByTimeAsync(0);
+      const context = await browserPool.createContext();
+      const installed = (context as unknown as typeof browser.openContexts[0]).route.mock.calls[0][1];
+
+      const handler = vi.fn().mockResolvedValue(undefined);
+      await browserPool.routeContext(context, handler);
+      const route = { continue: vi.fn() };
+      await installed(route);
+
+      expect(handler).toHaveBeenCalledWith(route);
+      expect(route.continue).not.toHaveBeenCalled();
+      // No second route round-trip for a warm context
+      expect((context as unknown as typeof browser.openContexts[0]).route).toHaveBeenCalledTimes(1);
+
+      await browserPool.close();
+    });
+
+    it('installs the route directly on a cold context', async () => {
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      const context = await browserPool.createContext();
+      const handler = vi.fn();
+      await browserPool.routeContext(context, handler);
+
+      expect((context as unknown as typeof browser.openContexts[0]).route).toHaveBeenCalledWith('**/*', handler);
+      // Warm pool is off by default
+      expect(browser.newContext).toHaveBeenCalledTimes(1);
+
+      await browserPool.close();
+    });
+
+    it('creates a proxied context fresh instead of taking a warm one', async () => {
+      process.env.WARM_CONTEXTS = '1';
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      browserPool.warmUp();
+      await vi.advanceTimersByTimeAsync(0);
+      const [warm] = browser.openContexts;
+
+      const proxy = { server: 'http://proxy.example:3128', username: 'u', password: 'p' };
+      const context = await browserPool.createContext({ proxy });
+
+      expect(context).not.toBe(warm);
+      expect(browser.newContext).toHaveBeenLastCalledWith(expect.objectContaining({ proxy }));
+      expect(browserPool.getStatus().shards[0].warm).toBe(1);
+
+      await browserPool.close();
+    });
+
+    it('keeps the browser alive instead of idle-restarting', async () => {
+      process.env.WARM_CONTEXTS = '1';
+      const browser = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(browser);
+      const { browserPool } = await import('./browserPool.js');
+
+      await browserPool.withLimit(async () => {
+        const context = await browserPool.createContext();
+        await context.close();
+      });
+      await vi.advanceTimersByTimeAsync(61000);
+
+      expect(browser.close).not.toHaveBeenCalled();
+      expect(browserPool.getStatus().shards[0]).toMatchObject({ running: true, warm: 1 });
+
+      await browserPool.close();
+    });
+
+    it('drops warm contexts of a crashed browser and refills on a new one', async () => {
+      process.env.WARM_CONTEXTS = '1';
+      const first = createShardBrowser();
+      const second = createShardBrowser();
+      mockChromium.launch.mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+      const { browserPool } = await import('./browserPool.js');
+
+      browserPool.warmUp();
+      await vi.advanceTimersByTimeAsync(0);
+
+      first.isConnected.mockReturnValue(false);
+      first.handlers.disconnected();
+      expect(browserPool.getStatus().shards[0].warm).toBe(0);
+
+      const context = await browserPool.createContext();
+      expect(second.openContexts).toContain(context);
+
+      await browserPool.close();
+    });
+  });
 });
@@ -1,7 +1,8 @@
 import { chromium } from 'patchright';
-import type { Browser, BrowserContext } from 'patchright';
+import type { Browser, BrowserContext, Route } from 'patchright';
 import consola from 'consola';
 import PQueue from 'p-queue';
+import type { BrowserProxy } from './proxy.js';
 import {
   browserLaunches,
   browserLaunchFailures,
@@ -12,17 +13,30 @@ import {
   circuitBreakerTrips,
   browserDisconnects,
   queueWaitTime,
+  warmContextRequests,
 } from './metrics.js';
 
 const MAX_CONCURRENT = parseInt(process.env.MAX_CONCURRENT || '2', 10);
 const IDLE_TIMEOUT_MS = parseInt(process.env.BROWSER_IDLE_TIMEOUT || '60000', 10); // 60 seconds
 const MAX_AGE_MS = parseInt(process.env.BROWSER_MAX_AGE || '7200000', 10); // 2 hours
 const QUEUE_TASK_TIMEOUT_MS = parseInt(process.env.QUEUE_TASK_TIMEOUT || '90000', 10); // 90 seconds
+// Independent Chrome instances; a crash or restart only takes down the contexts on one shard
+const parsedShards = parseInt(process.env.BROWSER_SHARDS || '1', 10);
+const BROWSER_SHARDS = Number.isFinite(parsedShards) && parsedShards > 0 ? parsedShards : 1;
+// Blank contexts kept ready (with their route installed) so extractions skip launch and newContext; 0 disables
+const parsedWarm = parseInt(process.env.WARM_CONTEXTS || '0', 10);
+const WARM_CONTEXTS = Number.isFinite(parsedWarm) && parsedWarm > 0 ? parsedWarm : 0;
+
+// Every context presents this UA; extractors report it back to callers so playback matches
+export const BROWSER_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 // Circuit breaker settings
 const CIRCUIT_BREAKER_THRESHOLD = 3; // failures before opening circuit
 const CIRCUIT_BREAKER_RESET_MS = 30000; // 30 seconds before retry
 
+export type RouteHandler = (route: Route) => Promise<void>;
+
 /**
  * Thrown by withLimit when a task exceeds QUEUE_TASK_TIMEOUT_MS.
  * Sentinel error class so callers can classify it via instanceof instead of
@@ -35,42 +49,148 @@ export class QueueTaskTimeoutError extends Error {
   }
 }
 
-class BrowserPool {
+export interface ShardStatus {
+  id: number;
+  running: boolean;
+  launching: boolean;
+  // Open browser contexts, i.e. extractions currently using this shard
+  contexts: number;
+  // Milliseconds since launch (0 when not running)
+  ageMs: number;
+  // Past BROWSER_MAX_AGE: takes no new contexts while others can, restarts once empty
+  draining: boolean;
+  // Pre-warmed contexts waiting for an extraction (not counted in `contexts`)
+  warm: number;
+}
+
+const CONTEXT_OPTIONS = {
+  userAgent: BROWSER_USER_AGENT,
+  bypassCSP: true,
+  ignoreHTTPSErrors: true,
+  viewport: { width: 800, height: 600 },
+  screen: { width: 800, height: 600 },
+  deviceScaleFactor: 1,
+  hasTouch: false,
+  isMobile: false,
+  // Performance optimizations
+  reducedMotion: 'reduce',
+} as const;
+
+// Warm contexts get their `**/*` route at creation; an extraction swaps in its handler through here
+const warmRoutes = new WeakMap<BrowserContext, (handler: RouteHandler) => void>();
+
+function launchChrome(): Promise<Browser> {
+  return chromium.launch({
+    channel: 'chrome',
+    executablePath: process.env.CHROME_PATH || undefined,
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+      '--disable-blink-features=AutomationControlled',
+      // Memory optimizations
+      '--disable-extensions',
+      '--disable-background-networking',
+      '--disable-sync',
+      '--disable-translate',
+      '--disable-default-apps',
+      '--no-first-run',
+      '--js-flags=--max-old-space-size=128',
+      // Additional CPU optimizations
+      '--disable-software-rasterizer',
+      '--disable-accelerated-2d-canvas',
+      '--mute-audio',
+      // Process limit flags (reduce memory by sharing renderer)
+      '--renderer-process-limit=1',
+      '--disable-features=IsolateOrigins,site-per-process',
+      // Graphics optimizations (video embeds don't need 3D)
+      '--disable-webgl',
+      '--disable-webgl2',
+      '--disable-3d-apis',
+      '--disable-canvas-aa',
+      // Keep extraction responsive (don't throttle timers/renderer)
+      '--disable-background-timer-throttling',
+      '--disable-renderer-backgrounding',
+      // Reduce background CPU work
+      '--disable-component-update',
+      '--disable-domain-reliability',
+      '--disable-client-side-phishing-detection',
+    ],
+  });
+}
+
+/**
+ * One Chrome instance with its own launch time, idle timer, max-age restart
+ * and disconnect handling, so shards recycle one at a time. Launches go
+ * through the pool, which owns the shared circuit breaker.
+ */
+class BrowserShard {
   private browser: Browser | null = null;
   private launching: Promise<Browser> | null = null;
-  private queue = new PQueue({ concurrency: MAX_CONCURRENT });
   private idleTimer: ReturnType<typeof setTimeout> | null = null;
-  private launchTime: number = 0;
-  private activeCount = 0;
-  private taskStartTimes = new Map<number, number>();
-  private nextTaskId = 0;
+  private launchTime = 0;
+  private warm: BrowserContext[] = [];
 
-  // Circuit breaker state
-  private consecutiveFailures = 0;
-  private circuitOpenUntil: number = 0;
+  constructor(
+    readonly id: number,
+    private launch: () => Promise<Browser>
+  ) {}
 
-  async getBrowser(): Promise<Browser> {
-    // Check circuit breaker - throw if open
-    if (this.isCircuitOpen()) {
-      const waitTime = Math.ceil((this.circuitOpenUntil - Date.now()) / 1000);
-      throw new Error(`Circuit breaker open, retry in ${waitTime}s`);
+  private get tag(): string {
+    return BROWSER_SHARDS > 1 ? `[BrowserPool#${this.id}]` : '[BrowserPool]';
+  }
+
+  isRunning(): boolean {
+    return this.browser !== null;
+  }
+
+  load(): number {
+    return this.browser?.isConnected() ? this.browser.contexts().length - this.warm.length : 0;
+  }
+
+  warmCount(): number {
+    return this.warm.length;
+  }
+
+  /** A pre-warmed context, if this shard can take new work and has one. */
+  takeWarm(): BrowserContext | undefined {
+    if (!this.browser?.isConnected() || this.isExpired()) return undefined;
+    return this.warm.shift();
+  }
+
+  async addWarm(create: (browser: Browser) => Promise<BrowserContext>): Promise<void> {
+    const browser = await this.getBrowser();
+    const context = await create(browser);
+    // Restarted or crashed while the context was being set up
+    if (this.browser !== browser) {
+      await context.close().catch(() => {});
+      return;
     }
+    this.warm.push(context);
+  }
+
+  isExpired(): boolean {
+    return this.browser !== null && Date.now() - this.launchTime > MAX_AGE_MS;
+  }
 
+  async getBrowser(): Promise<Browser> {
     // Check if existing browser is still connected
     if (this.browser) {
       if (this.browser.isConnected()) {
-        // Check max-age - restart if exceeded and no active extractions
+        // Check max-age - restart if exceeded and no extractions on this shard
         const age = Date.now() - this.launchTime;
-        if (age > MAX_AGE_MS && this.activeCount === 0) {
-          consola.info(`[BrowserPool] Max age exceeded (${Math.round(age / 1000)}s), restarting browser`);
+        if (age > MAX_AGE_MS && this.load() === 0) {
+          consola.info(`${this.tag} Max age exceeded (${Math.round(age / 1000)}s), restarting browser`);
           browserRestarts.inc({ reason: 'max_age' });
-          await this.restartBrowser();
+          await this.restart();
         } else {
           return this.browser;
         }
       } else {
         // Browser disconnected, clear reference
-        consola.warn('[BrowserPool] Browser disconnected, will relaunch');
+        consola.warn(`${this.tag} Browser disconnected, will relaunch`);
         this.browser = null;
       }
     }
@@ -80,7 +200,7 @@ class BrowserPool {
       return this.launching;
     }
 
-    this.launching = this.launchBrowserWithCircuitBreaker();
+    this.launching = this.launchBrowser();
     try {
       this.browser = await this.launching;
       return this.browser;
@@ -89,13 +209,132 @@ class BrowserPool {
     }
   }
 
+  private async launchBrowser(): Promise<Browser> {
+    consola.info(`${this.tag} Launching browser...`);
+    this.launchTime = Date.now();
+    const browser = await this.launch();
+
+    // Handle browser disconnect/crash - clear reference so next request relaunches
+    browser.on('disconnected', () => {
+      consola.warn(`${this.tag} Browser disconnected unexpectedly`);
+      browserDisconnects.inc();
+      if (this.browser === browser) {
+        this.browser = null;
+        this.warm = [];
+      }
+    });
+
+    consola.info(`${this.tag} Browser launched`);
+    browserLaunches.inc();
+    return browser;
+  }
+
+  clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  scheduleIdleRestart(): void {
+    this.clearIdleTimer();
+    if (!this.browser) return;
+    this.idleTimer = setTimeout(async () => {
+      this.idleTimer = null;
+      if (this.browser && this.load() === 0) {
+        const age = Math.round((Date.now() - this.launchTime) / 1000);
+        consola.info(`${this.tag} Idle restart (age: ${age}s)`);
+        browserRestarts.inc({ reason: 'idle' });
+        await this.restart();
+      }
+    }, IDLE_TIMEOUT_MS);
+  }
+
+  async restart(): Promise<void> {
+    this.clearIdleTimer();
+    if (this.browser) {
+      const oldBrowser = this.browser;
+      this.browser = null; // Set null FIRST to avoid race with getBrowser()
+      this.warm = []; // Closed with the browser
+      await oldBrowser.close().catch(() => {});
+    }
+  }
+
+  getStatus(): ShardStatus {
+    return {
+      id: this.id,
+      running: this.browser !== null,
+      launching: this.launching !== null,
+      contexts: this.load(),
+      ageMs: this.browser ? Date.now() - this.launchTime : 0,
+      draining: this.isExpired(),
+      warm: this.warm.length,
+    };
+  }
+}
+
+class BrowserPool {
+  private shards: BrowserShard[] = Array.from(
+    { length: BROWSER_SHARDS },
+    (_, i) => new BrowserShard(i, () => this.launchBrowserWithCircuitBreaker())
+  );
+  private queue = new PQueue({ concurrency: MAX_CONCURRENT });
+  private activeCount = 0;
+  private taskStartTimes = new Map<number, number>();
+  private nextTaskId = 0;
+
+  // Circuit breaker state (shared: a launch failure is almost never shard-specific)
+  private consecutiveFailures = 0;
+  private circuitOpenUntil: number = 0;
+
+  // Warm pool: a single background refill at a time; paused by close()
+  private replenishing: Promise<void> | null = null;
+  private warmPaused = false;
+
+  /**
+   * Least-loaded shard for a new context. Running shards win ties so an idle
+   * pool doesn't launch a second Chrome for one request. A shard past its max
+   * age is skipped while any other can take the context, so it drains and
+   * restarts (on its next getBrowser) without failing in-flight extractions.
+   * Warm refills count waiting contexts as load, so they spread like real work.
+   */
+  private pickShard(countWarm = false): BrowserShard {
+    const fresh = this.shards.filter((s) => !s.isExpired());
+    const candidates = fresh.length > 0 ? fresh : this.shards;
+    const load = (s: BrowserShard) => s.load() + (countWarm ? s.warmCount() : 0);
+    return candidates.reduce((best, s) =>
+      load(s) < load(best) || (load(s) === load(best) && s.isRunning() && !best.isRunning()) ? s : best
+    );
+  }
+
+  private async prepareShards(): Promise<void> {
+    // Check circuit breaker - throw if open
+    if (this.isCircuitOpen()) {
+      const waitTime = Math.ceil((this.circuitOpenUntil - Date.now()) / 1000);
+      throw new Error(`Circuit breaker open, retry in ${waitTime}s`);
+    }
+    // Recycle drained shards now rather than on their next (possibly distant) pick
+    for (const shard of this.shards) {
+      if (shard.isExpired() && shard.load() === 0) {
+        consola.info(`[BrowserPool#${shard.id}] Max age exceeded, restarting drained shard`);
+        browserRestarts.inc({ reason: 'max_age' });
+        await shard.restart();
+      }
+    }
+  }
+
+  async getBrowser(): Promise<Browser> {
+    await this.prepareShards();
+    return this.pickShard().getBrowser();
+  }
+
   private isCircuitOpen(): boolean {
     return this.circuitOpenUntil > Date.now();
   }
 
   private async launchBrowserWithCircuitBreaker(): Promise<Browser> {
     try {
-      const browser = await this.launchBrowser();
+      const browser = await launchChrome();
       // Success - reset circuit breaker
       this.consecutiveFailures = 0;
       this.circuitOpenUntil = 0;
@@ -117,86 +356,104 @@ class BrowserPool {
     }
   }
 
-  getStatus(): { isCircuitOpen: boolean; consecutiveFailures: number; circuitOpenUntil: number } {
+  getStatus(): {
+    isCircuitOpen: boolean;
+    consecutiveFailures: number;
+    circuitOpenUntil: number;
+    shards: ShardStatus[];
+  } {
     return {
       isCircuitOpen: this.isCircuitOpen(),
       consecutiveFailures: this.consecutiveFailures,
       circuitOpenUntil: this.circuitOpenUntil,
+      shards: this.shards.map((s) => s.getStatus()),
     };
   }
 
-  private async launchBrowser(): Promise<Browser> {
-    consola.info('[BrowserPool] Launching browser...');
-    this.launchTime = Date.now();
-    const browser = await chromium.launch({
-      channel: 'chrome',
-      executablePath: process.env.CHROME_PATH || undefined,
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-        '--disable-blink-features=AutomationControlled',
-        // Memory optimizations
-        '--disable-extensions',
-        '--disable-background-networking',
-        '--disable-sync',
-        '--disable-translate',
-        '--disable-default-apps',
-        '--no-first-run',
-        '--js-flags=--max-old-space-size=128',
-        // Additional CPU optimizations
-        '--disable-software-rasterizer',
-        '--disable-accelerated-2d-canvas',
-        '--mute-audio',
-        // Process limit flags (reduce memory by sharing renderer)
-        '--renderer-process-limit=1',
-        '--disable-features=IsolateOrigins,site-per-process',
-        // Graphics optimizations (video embeds don't need 3D)
-        '--disable-webgl',
-        '--disable-webgl2',
-        '--disable-3d-apis',
-        '--disable-canvas-aa',
-        // Keep extraction responsive (don't throttle timers/renderer)
-        '--disable-background-timer-throttling',
-        '--disable-renderer-backgrounding',
-        // Reduce background CPU work
-        '--disable-component-update',
-        '--disable-domain-reliability',
-        '--disable-client-side-phishing-detection',
-      ],
-    });
+  async createContext(options: { proxy?: BrowserProxy } = {}): Promise<BrowserContext> {
+    const { proxy } = options;
+    // Proxy is fixed at context creation, so proxied contexts can't come from the warm pool
+    if (WARM_CONTEXTS === 0 || proxy) {
+      const browser = await this.getBrowser();
+      return browser.newContext(proxy ? { ...CONTEXT_OPTIONS, proxy } : CONTEXT_OPTIONS);
+    }
 
-    // Handle browser disconnect/crash - clear reference so next request relaunches
-    browser.on('disconnected', () => {
-      consola.warn('[BrowserPool] Browser disconnected unexpectedly');
-      browserDisconnects.inc();
-      if (this.browser === browser) {
-        this.browser = null;
-      }
-    });
+    await this.prepareShards();
+    this.warmPaused = false;
+    const warm = this.takeWarmContext();
+    warmContextRequests.inc({ result: warm ? 'hit' : 'miss' });
+    try {
+      if (warm) return warm;
+      const browser = await this.pickShard().getBrowser();
+      return await browser.newContext(CONTEXT_OPTIONS);
+    } finally {
+      this.replenish();
+    }
+  }
 
-    consola.info('[BrowserPool] Browser launched');
-    browserLaunches.inc();
-    return browser;
+  /**
+   * Route every request of `context` through `handler`. A warm context
+   * already has the route installed, so this only swaps in the handler.
+   */
+  async routeContext(context: BrowserContext, handler: RouteHandler): Promise<void> {
+    const setHandler = warmRoutes.get(context);
+    if (setHandler) {
+      warmRoutes.delete(context);
+      setHandler(handler);
+      return;
+    }
+    await context.route('**/*', handler);
   }
 
-  async createContext(): Promise<BrowserContext> {
-    const browser = await this.getBrowser();
-    return browser.newContext({
-      userAgent:
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      bypassCSP: true,
-      ignoreHTTPSErrors: true,
-      viewport: { width: 800, height: 600 },
-      screen: { width: 800, height: 600 },
-      deviceScaleFactor: 1,
-      hasTouch: false,
-      isMobile: false,
-      // Performance optimizations
-      reducedMotion: 'reduce',
+  /**
+   * Start filling the warm pool without waiting for a first extraction.
+   * A no-op unless WARM_CONTEXTS is set.
+   */
+  warmUp(): void {
+    this.warmPaused = false;
+    this.replenish();
+  }
+
+  // Warm context from the least-loaded shard that has one
+  private takeWarmContext(): BrowserContext | undefined {
+    const withWarm = this.shards.filter((s) => s.warmCount() > 0);
+    withWarm.sort((a, b) => a.load() - b.load());
+    for (const shard of withWarm) {
+      const context = shard.takeWarm();
+      if (context) return context;
+    }
+    return undefined;
+  }
+
+  private async createWarmContext(browser: Browser): Promise<BrowserContext> {
+    const context = await browser.newContext(CONTEXT_OPTIONS);
+    // No page exists until an extraction takes the context, so nothing is routed before then
+    let handler: RouteHandler = (route) => route.continue();
+    await context.route('**/*', (route) => handler(route));
+    warmRoutes.set(context, (next) => {
+      handler = next;
     });
+    return context;
+  }
+
+  private replenish(): void {
+    if (WARM_CONTEXTS === 0 || this.replenishing) return;
+    this.replenishing = (async () => {
+      try {
+        while (!this.warmPaused && !this.isCircuitOpen() && this.warmTotal() < WARM_CONTEXTS) {
+          await this.pickShard(true).addWarm((browser) => this.createWarmContext(browser));
+        }
+      } catch (error) {
+        // The next createContext retries; a broken launch also feeds the circuit breaker
+        consola.warn('[BrowserPool] Warm context refill failed:', error);
+      } finally {
+        this.replenishing = null;
+      }
+    })();
+  }
+
+  private warmTotal(): number {
+    return this.shards.reduce((sum, s) => sum + s.warmCount(), 0);
   }
 
   /**
@@ -214,8 +471,8 @@ class BrowserPool {
         queueWaitTime.observe(waitSeconds);
       }
 
-      // Clear idle timer when extraction starts
-      this.clearIdleTimer();
+      // Don't idle-close a shard this task is about to take a context from
+      this.clearIdleTimers();
       this.activeCount++;
       this.taskStartTimes.set(taskId, Date.now());
 
@@ -247,9 +504,9 @@ class BrowserPool {
         // Update metrics
         queueDepth.set(this.queue.size);
         activeExtractions.set(this.activeCount);
-        // Schedule idle restart after extraction completes (if no more active)
+        // Schedule idle restarts after extraction completes (if no more active)
         if (this.activeCount === 0) {
-          this.scheduleIdleRestart();
+          this.scheduleIdleRestarts();
         }
       }
     }, { priority });
@@ -283,47 +540,29 @@ class BrowserPool {
     return this.activeCount;
   }
 
-  private clearIdleTimer(): void {
-    if (this.idleTimer) {
-      clearTimeout(this.idleTimer);
-      this.idleTimer = null;
-    }
-  }
-
-  private scheduleIdleRestart(): void {
-    this.clearIdleTimer();
-    this.idleTimer = setTimeout(async () => {
-      if (this.activeCount === 0 && this.browser) {
-        const age = Math.round((Date.now() - this.launchTime) / 1000);
-        consola.info(`[BrowserPool] Idle restart (age: ${age}s)`);
-        browserRestarts.inc({ reason: 'idle' });
-        await this.restartBrowser();
-      }
-    }, IDLE_TIMEOUT_MS);
+  private clearIdleTimers(): void {
+    for (const shard of this.shards) shard.clearIdleTimer();
   }
 
-  private async restartBrowser(): Promise<void> {
-    this.clearIdleTimer();
-    if (this.browser) {
-      const oldBrowser = this.browser;
-      this.browser = null; // Set null FIRST to avoid race with getBrowser()
-      await oldBrowser.close().catch(() => {});
-    }
+  private scheduleIdleRestarts(): void {
+    // A warm pool exists to keep Chrome up between extractions
+    if (WARM_CONTEXTS > 0) return;
+    for (const shard of this.shards) shard.scheduleIdleRestart();
   }
 
   async close(): Promise<void> {
-    this.clearIdleTimer();
-    if (this.browser) {
+    this.clearIdleTimers();
+    this.warmPaused = true;
+    await this.replenishing;
+    if (this.isRunning()) {
       consola.info('[BrowserPool] Closing browser...');
-      const oldBrowser = this.browser;
-      this.browser = null; // Set null FIRST to avoid race with getBrowser()
-      await oldBrowser.close().catch(() => {});
+      await Promise.all(this.shards.map((s) => s.restart()));
       consola.info('[BrowserPool] Browser closed');
     }
   }
 
   isRunning(): boolean {
-    return this.browser !== null;
+    return this.shards.some((s) => s.isRunning());
   }
 }
 
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectExpiry, registerExpiryParser } from './expiry.js';
+
+// 2026-08-17T03:19:24Z
+const NOW = 1786936764 * 1000;
+
+describe('detectExpiry', () => {
+  it.each([
+    ['expires=', 'https://cdn.top/live/index.m3u8?expires=1786940364&sig=x'],
+    ['e=', 'https://cdn.top/live/index.m3u8?e=1786940364'],
+    ['exp= in milliseconds', 'https://cdn.top/live/index.m3u8?exp=1786940364000'],
+    ['token=...~exp=', 'https://cdn.top/live/index.m3u8?token=st=1786936764~exp=1786940364~acl=/*~hmac=ab12'],
+    ['a path timestamp', 'https://cdn.top/secure/sig/1786940364/live/index.m3u8'],
+  ])('reads %s', (_name, url) => {
+    expect(detectExpiry(url, NOW)).toEqual({ expiresAt: '2026-08-17T04:19:24.000Z', ttlSeconds: 3600 });
+  });
+
+  it('prefers an explicit parameter over a path number', () => {
+    expect(detectExpiry('https://cdn.top/1786937000/index.m3u8?expires=1786940364', NOW)?.ttlSeconds).toBe(3600);
+  });
+
+  it('ignores path numbers far from now (IDs, not expiries)', () => {
+    expect(detectExpiry('https://cdn.top/v/1234567890/index.m3u8', NOW)).toBeNull();
+  });
+
+  it('ignores unsigned URLs and non-timestamp values', () => {
+    expect(detectExpiry('https://cdn.top/live/index.m3u8?e=abc', NOW)).toBeNull();
+    expect(detectExpiry('not a url', NOW)).toBeNull();
+  });
+
+  it('reports 0 seconds left for a past expiry', () => {
+    expect(detectExpiry('https://cdn.top/a.m3u8?expires=1786930000', NOW)?.ttlSeconds).toBe(0);
+  });
+
+  it('runs registered parsers before the built-ins', () => {
+    registerExpiryParser((url) => (url.hostname === 'custom.top' ? Number(url.searchParams.get('valid_until')) : null));
+    registerExpiryParser(() => {
+      throw new Error('broken parser');
+    });
+    expect(detectExpiry('https://custom.top/a.m3u8?valid_until=1786940364&e=1786999999', NOW)?.ttlSeconds).toBe(3600);
+    expect(detectExpiry('https://cdn.top/a.m3u8?e=1786940364', NOW)?.ttlSeconds).toBe(3600);
+  });
+});
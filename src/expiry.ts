@@ -0,0 +1,92 @@
+/**
+ * Reads a unix expiry (seconds) out of a signed stream URL, or returns null.
+ * `now` is unix milliseconds, for plausibility checks.
+ */
+export type ExpiryParser = (url: URL, now: number) => number | null;
+
+export interface StreamExpiry {
+  expiresAt: string;
+  // Seconds left at extraction time, 0 if already past
+  ttlSeconds: number;
+}
+
+const EXPIRY_PARAMS = new Set(['expires', 'e', 'exp']);
+// Akamai-style token: `token=st=1786936764~exp=1786940364~acl=/*~hmac=...`
+const TOKEN_EXP = /(?:^|~)exp=(\d{10}|\d{13})(?:~|$)/;
+const PATH_TIMESTAMP = /^\d{10}$/;
+// A bare number in a path is only an expiry if it lands soon after now;
+// anything else is more likely an ID or an issue time
+const PATH_MAX_AHEAD_S = 30 * 24 * 3600;
+const PATH_MAX_BEHIND_S = 24 * 3600;
+
+// 10 digits are seconds, 13 are milliseconds; either must fall in 2001–2286
+function unixSeconds(value: string): number | null {
+  if (/^\d{10}$/.test(value)) return Number(value);
+  if (/^\d{13}$/.test(value)) return Math.floor(Number(value) / 1000);
+  return null;
+}
+
+const queryParamExpiry: ExpiryParser = (url) => {
+  for (const [key, value] of url.searchParams) {
+    if (EXPIRY_PARAMS.has(key.toLowerCase())) {
+      const seconds = unixSeconds(value);
+      if (seconds !== null) return seconds;
+    }
+  }
+  return null;
+};
+
+const tokenExpiry: ExpiryParser = (url) => {
+  for (const value of url.searchParams.values()) {
+    const m = value.match(TOKEN_EXP);
+    if (m) return unixSeconds(m[1]);
+  }
+  return null;
+};
+
+const pathExpiry: ExpiryParser = (url, now) => {
+  const nowS = now / 1000;
+  for (const segment of url.pathname.split('/')) {
+    if (!PATH_TIMESTAMP.test(segment)) continue;
+    const seconds = Number(segment);
+    if (seconds > nowS - PATH_MAX_BEHIND_S && seconds < nowS + PATH_MAX_AHEAD_S) return seconds;
+  }
+  return null;
+};
+
+// Explicit parameters before path guesses
+const BUILTIN_PARSERS: ExpiryParser[] = [queryParamExpiry, tokenExpiry, pathExpiry];
+const customParsers: ExpiryParser[] = [];
+
+/** Add a parser for a CDN's token format. Custom parsers run before the built-ins. */
+export function registerExpiryParser(parser: ExpiryParser): void {
+  customParsers.push(parser);
+}
+
+/**
+ * When `streamUrl` expires, from the first parser that recognizes it. A
+ * parser that throws is treated as not recognizing the URL. Null for
+ * unsigned or unrecognized URLs.
+ */
+export function detectExpiry(streamUrl: string, now = Date.now()): StreamExpiry | null {
+  let url: URL;
+  try {
+    url = new URL(streamUrl);
+  } catch {
+    return null;
+  }
+  for (const parser of [...customParsers, ...BUILTIN_PARSERS]) {
+    let seconds: number | null;
+    try {
+      seconds = parser(url, now);
+    } catch {
+      continue;
+    }
+    if (seconds === null || !Number.isFinite(seconds)) continue;
+    return {
+      expiresAt: new Date(seconds * 1000).toISOString(),
+      ttlSeconds: Math.max(0, Math.floor(seconds - now / 1000)),
+    };
+  }
+  return null;
+}
@@ -1,7 +1,12 @@
-import type { BrowserContext, Frame } from 'patchright';
+import type { BrowserContext, Frame, Request, Response, Route } from 'patchright';
 import consola from 'consola';
-import { browserPool } from './browserPool.js';
+import { browserPool, BROWSER_USER_AGENT } from './browserPool.js';
 import { contextCreationTime, m3u8DetectionTime } from './metrics.js';
+import { runBrowserActions, type BrowserAction } from './browserActions.js';
+import { PLAYER_HOOK_BINDING, PLAYER_HOOK_SCRIPT } from './playerHooks.js';
+import { findUrlsInBody, isSniffableResponse, SNIFF_MAX_BODY_BYTES } from './responseSniffer.js';
+import { absolutizePlaylist } from './playlist.js';
+import { browserProxy, type BrowserProxy } from './proxy.js';
 
 // Cached patterns for performance (compiled once at module load)
 const BLOCK_PATTERNS = [
@@ -38,13 +43,165 @@ const PLAYER_DOMAIN_REGEX = /player|jwplayer|plyr|video|embed|hls|dash|stream/i;
 // Telemetry patterns for XHR/Fetch blocking
 const TELEMETRY_PATTERN = /analytics|tracking|beacon|metrics|telemetry|collect|log|event/i;
 
+// Stream detection patterns (HLS is a plain substring check)
+const DASH_PATTERN = /\.mpd(\?|$)/i;
+const MP4_PATTERN = /\.(mp4|m4v)(\?|$)/i;
+// Preview/ad clips share the .mp4 extension with real progressive streams
+const PREVIEW_PATTERN = /preview|thumb|trailer|teaser|sprite|promo|(^|[/_.-])ads?[/_.-]/i;
+
+export type StreamFormat = 'hls' | 'dash' | 'mp4';
+
+export const STREAM_FORMATS: readonly StreamFormat[] = ['hls', 'dash', 'mp4'];
+
+// Checked before any blocking, so an enabled format wins over BLOCK_PATTERNS
+// (which still drops .mp4 previews when `mp4` is off or the URL looks like one)
+const STREAM_MATCHERS: Record<StreamFormat, (url: string) => boolean> = {
+  hls: (url) => url.includes('.m3u8') && !url.includes('.ts.m3u8'),
+  dash: (url) => DASH_PATTERN.test(url),
+  mp4: (url) => MP4_PATTERN.test(url) && !PREVIEW_PATTERN.test(url),
+};
+
+export function matchStreamFormat(url: string, formats: readonly StreamFormat[]): StreamFormat | null {
+  return formats.find((f) => STREAM_MATCHERS[f](url)) ?? null;
+}
+
+export interface StreamUrlMatcher {
+  // Replaces the built-in format matchers when set
+  include?: RegExp;
+  exclude: RegExp[];
+}
+
+/**
+ * Compile operator-supplied include/exclude patterns. Throws SyntaxError on a
+ * malformed pattern so the route can reject it with a 400 before queueing.
+ */
+export function compileStreamMatcher(match?: string, exclude: string[] = []): StreamUrlMatcher {
+  return {
+    include: match ? new RegExp(match) : undefined,
+    exclude: exclude.map((p) => new RegExp(p)),
+  };
+}
+
+// Exclusions veto first. A caller `match` replaces the format matchers; the
+// format of a URL it accepts is inferred, defaulting to HLS.
+export function detectStream(
+  url: string,
+  formats: readonly StreamFormat[],
+  matcher: StreamUrlMatcher
+): StreamFormat | null {
+  if (matcher.exclude.some((re) => re.test(url))) return null;
+  if (matcher.include) {
+    return matcher.include.test(url) ? (matchStreamFormat(url, STREAM_FORMATS) ?? 'hls') : null;
+  }
+  return matchStreamFormat(url, formats);
+}
+
+// Capture-window ranking hints. URL shape is all we have: the playlist
+// request is aborted, so its body is never seen.
+const MASTER_HINT = /master|manifest|playlist/i;
+const MEDIA_HINT = /chunklist|media[-_]?\d|tracks?-v\d|index[-_]\d|[_/-]\d{3,4}p?[_/.]/i;
+const AD_HINT = /(^|[/_.-])(ads?|adserver|advert\w*|preroll|pre-roll|vast|vmap|ima)([/_.-]|$)|doubleclick|imasdk/i;
+
+export type PlaylistKind = 'master' | 'media' | 'unknown';
+
+// `network`: intercepted request. `player-hook`: URL handed to a player or
+// request API in the page, seen before (or instead of) any request.
+// `response-body`: URL found in an xhr/fetch response (e.g. a player config).
+export type DetectionMethod = 'network' | 'player-hook' | 'response-body';
+
+export interface StreamCandidate {
+  url: string;
+  format: StreamFormat;
+  kind: PlaylistKind;
+  isAd: boolean;
+  // URL of the frame that issued the request (absent for worker requests)
+  frameUrl?: string;
+  headers: Record<string, string>;
+  detectionMethod: DetectionMethod;
+  // Milliseconds from navigation start to interception
+  detectedAfterMs: number;
+}
+
+// One browser-context cookie, as Chrome stored it. `expires` is unix
+// seconds, -1 for a session cookie.
+export interface StreamCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  secure: boolean;
+  httpOnly: boolean;
+}
+
 export interface ExtractedStream {
   url: string;
   headers?: Record<string, string>;
+  // Cookie header Chrome would send to the stream URL
   cookies?: string;
+  // Every cookie the context held, whatever its domain (browser only)
+  cookieJar?: StreamCookie[];
+  format?: StreamFormat;
+  detectionMethod?: DetectionMethod;
+  // Every stream seen during the capture window, best first (capture-window mode only)
+  candidates?: StreamCandidate[];
+  // HLS playlist Chrome fetched for the page, URIs made absolute (captureBody mode only)
+  playlistBody?: string;
+  // Forwardable headers of other requests the page made, by URL. Internal:
+  // playlist parsing matches key and init-segment URIs against it.
+  observedRequests?: Record<string, Record<string, string>>;
+}
+
+export function classifyStreamUrl(url: string, format: StreamFormat): { kind: PlaylistKind; isAd: boolean } {
+  const isAd = AD_HINT.test(url);
+  if (format === 'dash') return { kind: 'master', isAd }; // an MPD always lists its representations
+  if (format === 'mp4') return { kind: 'media', isAd };
+  if (MEDIA_HINT.test(url)) return { kind: 'media', isAd };
+  if (MASTER_HINT.test(url)) return { kind: 'master', isAd };
+  return { kind: 'unknown', isAd };
+}
+
+const KIND_RANK: Record<PlaylistKind, number> = { master: 0, unknown: 1, media: 2 };
+
+// Main content beats ads, then master beats media; ties keep arrival order
+export function rankCandidates(candidates: StreamCandidate[]): StreamCandidate[] {
+  return [...candidates].sort(
+    (a, b) => Number(a.isAd) - Number(b.isAd) || KIND_RANK[a.kind] - KIND_RANK[b.kind] || a.detectedAfterMs - b.detectedAfterMs
+  );
+}
+
+export interface BrowserExtractOptions {
+  // Navigation referer: some embeds only arm the player when loaded with the parent page's referer
+  referer?: string;
+  // Replaces the default play-button selectors (tried in order, first visible wins)
+  playSelectors?: string[];
+  // Stream formats to capture; defaults to HLS only
+  formats?: StreamFormat[];
+  // Include regex for stream URLs (replaces the `formats` matchers) and
+  // regexes that veto a URL either way
+  match?: string;
+  exclude?: string[];
+  // Keep capturing this long after the first hit and return the best-ranked
+  // candidate instead of the first one. 0 (default) resolves on first hit.
+  captureWindowMs?: number;
+  // Interaction script run after navigation in place of the play-selector pass
+  actions?: BrowserAction[];
+  // Sources registered with context.addInitScript, so they run before any page script
+  initScripts?: string[];
+  // Report URLs handed to hls.js / JW Player / video.js / media elements (default on)
+  playerHooks?: boolean;
+  // Return the headers Chrome sent for the stream request instead of the synthesized set
+  fullHeaders?: boolean;
+  // Let Chrome fetch an intercepted HLS playlist and return its body, for single-use tokens
+  captureBody?: boolean;
+  // Outbound proxy URL for the whole context (http/https, or socks5 without credentials)
+  proxy?: string;
+  // Record the headers of the page's other requests (for playlist key URIs); only
+  // worth the memory when the playlist will be parsed or verified
+  observeRequests?: boolean;
 }
 
-const playSelectors = [
+const DEFAULT_PLAY_SELECTORS = [
   '.jw-icon-playback',
   '.jw-display-icon-container',
   '.vjs-big-play-button',
@@ -55,7 +212,7 @@ const playSelectors = [
   '[class*="play"]',
 ];
 
-async function tryClickInFrame(frame: Frame): Promise<void> {
+async function tryClickInFrame(frame: Frame, playSelectors: string[]): Promise<void> {
   for (const selector of playSelectors) {
     try {
       const element = await frame.$(selector);
@@ -73,22 +230,199 @@ async function tryClickInFrame(frame: Frame): Promise<void> {
   }
 }
 
+// Use referer from the stream request, or fall back to embed URL origin
+function playbackHeaders(embedUrl: string, requestReferer: string | undefined): Record<string, string> {
+  let refererOrigin: string;
+  try {
+    refererOrigin = new URL(requestReferer || embedUrl).origin;
+  } catch {
+    refererOrigin = new URL(embedUrl).origin;
+  }
+  return { Referer: refererOrigin + '/', Origin: refererOrigin, 'User-Agent': BROWSER_USER_AGENT };
+}
+
+// Request headers worth replaying against a CDN. Anything else Chrome sends
+// (cookie, sec-fetch-*, accept-encoding, ...) is either returned separately
+// or describes this connection rather than the caller's.
+const FORWARDED_HEADERS = new Set(['accept', 'accept-language', 'authorization', 'origin', 'range', 'referer', 'user-agent']);
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+const canonicalHeaderName = (name: string) => name.replace(/(^|-)([a-z])/g, (_, dash: string, c: string) => dash + c.toUpperCase());
+
+/**
+ * The allowlisted subset of the headers Chrome sent for the stream request
+ * (plus any `x-*` header), minus hop-by-hop headers, including those the
+ * request's own `Connection` header names. `User-Agent` is always the one
+ * the context was created with.
+ */
+export function forwardedRequestHeaders(headers: Record<string, string>): Record<string, string> {
+  const hopByHop = new Set(HOP_BY_HOP_HEADERS);
+  for (const token of (headers['connection'] ?? '').split(',')) {
+    if (token.trim()) hopByHop.add(token.trim().toLowerCase());
+  }
+  const out: Record<string, string> = {};
+  for (const [rawName, value] of Object.entries(headers)) {
+    const name = rawName.toLowerCase();
+    if (hopByHop.has(name) || (!FORWARDED_HEADERS.has(name) && !name.startsWith('x-'))) continue;
+    out[canonicalHeaderName(name)] = value;
+  }
+  out['User-Agent'] = BROWSER_USER_AGENT;
+  return out;
+}
+
+/**
+ * Whether Chrome would attach `cookie` to a request for `url`: a domain
+ * cookie (leading dot) matches the domain and its subdomains, a host-only
+ * cookie the exact host; the path must be a prefix on a `/` boundary;
+ * secure cookies need https; expired cookies never match.
+ */
+export function cookieMatchesUrl(cookie: StreamCookie, url: string, now = Date.now()): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  const host = target.hostname.toLowerCase();
+  const domain = cookie.domain.toLowerCase();
+  const domainOk = domain.startsWith('.')
+    ? host === domain.slice(1) || host.endsWith(domain)
+    : host === domain;
+  if (!domainOk) return false;
+  const path = cookie.path || '/';
+  const pathOk =
+    target.pathname === path ||
+    (target.pathname.startsWith(path) && (path.endsWith('/') || target.pathname[path.length] === '/'));
+  if (!pathOk) return false;
+  if (cookie.secure && target.protocol !== 'https:') return false;
+  return cookie.expires < 0 || cookie.expires * 1000 > now;
+}
+
+async function captureCookies(
+  context: BrowserContext,
+  streamUrl: string
+): Promise<{ cookies?: string; cookieJar?: StreamCookie[] }> {
+  try {
+    const all = await context.cookies();
+    if (all.length > 0) {
+      const cookieJar: StreamCookie[] = all.map(({ name, value, domain, path, expires, secure, httpOnly }) => ({
+        name,
+        value,
+        domain,
+        path,
+        expires,
+        secure,
+        httpOnly,
+      }));
+      // Ad-network cookies in the jar get a CDN request rejected; send only what Chrome would
+      const sent = cookieJar.filter((c) => cookieMatchesUrl(c, streamUrl));
+      consola.debug(`[Extractor] Captured ${cookieJar.length} cookies, ${sent.length} for the stream host`);
+      return {
+        cookies: sent.length > 0 ? sent.map((c) => `${c.name}=${c.value}`).join('; ') : undefined,
+        cookieJar,
+      };
+    }
+  } catch {
+    consola.debug('[Extractor] Could not capture cookies');
+  }
+  return {};
+}
+
+// `Hls.loadSource` only ever takes an HLS playlist, so it counts even without
+// a `.m3u8` in the URL; every other hook needs a URL that looks like a stream.
+function hookStreamFormat(
+  url: string,
+  hook: unknown,
+  formats: readonly StreamFormat[],
+  matcher: StreamUrlMatcher
+): StreamFormat | null {
+  const format = detectStream(url, formats, matcher);
+  if (format || hook !== 'hls' || matcher.include || !formats.includes('hls')) return format;
+  return matcher.exclude.some((re) => re.test(url)) ? null : 'hls';
+}
+
+// Requests whose headers are kept for key and init-segment URIs (players fetch
+// those over xhr/fetch, or natively as media/other)
+const OBSERVED_RESOURCE_TYPES = new Set(['xhr', 'fetch', 'media', 'other']);
+const MAX_OBSERVED_REQUESTS = 200;
+// fullHeaders: how long a hook/body sighting waits for Chrome's own request for a stream
+const FULL_HEADERS_WAIT_MS = 3000;
+
+interface StreamHit {
+  url: string;
+  format: StreamFormat;
+  headers: Record<string, string>;
+  frameUrl?: string;
+  detectionMethod: DetectionMethod;
+}
+
+// A playlist, even a long VOD one, is text of a few hundred KB at most
+const MAX_CAPTURED_BODY_BYTES = 2 * 1024 * 1024;
+const CAPTURE_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Fetch an intercepted playlist through Chrome (same cookies, headers and
+ * connection as the page's own request would have used) and return it with
+ * every URI absolute. Undefined on any failure; the caller still has the URL.
+ */
+async function capturePlaylistBody(route: Route): Promise<string | undefined> {
+  const url = route.request().url();
+  try {
+    const response = await route.fetch({ timeout: CAPTURE_FETCH_TIMEOUT_MS });
+    const body = await response.body();
+    if (!response.ok() || body.length > MAX_CAPTURED_BODY_BYTES) {
+      consola.debug(`[Extractor] Not capturing body of ${url} (HTTP ${response.status()}, ${body.length} bytes)`);
+      return undefined;
+    }
+    return absolutizePlaylist(body.toString('utf8'), response.url());
+  } catch (err) {
+    consola.debug(`[Extractor] Body capture failed for ${url}: ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
+function requestFrameUrl(request: Request): string | undefined {
+  try {
+    return request.frame().url();
+  } catch {
+    return undefined; // service-worker requests have no frame
+  }
+}
+
 async function doExtraction(
   embedUrl: string,
   timeout: number,
-  referer?: string
+  options: BrowserExtractOptions,
+  proxy: BrowserProxy | undefined
 ): Promise<ExtractedStream | null> {
   consola.debug(`[Extractor] Opening: ${embedUrl}`);
+  const { referer } = options;
+  const playSelectors = options.playSelectors?.length ? options.playSelectors : DEFAULT_PLAY_SELECTORS;
+  const formats = options.formats?.length ? options.formats : (['hls'] as const);
+  const captureWindowMs = options.captureWindowMs ?? 0;
+  const matcher = compileStreamMatcher(options.match, options.exclude);
 
   let context: BrowserContext | null = null;
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let windowTimer: ReturnType<typeof setTimeout> | null = null;
+  let sightingTimer: ReturnType<typeof setTimeout> | null = null;
   // Track navigation start time for m3u8 detection metric (mutable for route handler closure)
   let navigationStartTime = 0;
 
   try {
     // Track context creation time
     const contextStartTime = Date.now();
-    context = await browserPool.createContext();
+    context = await browserPool.createContext({ proxy });
     const contextDurationSeconds = (Date.now() - contextStartTime) / 1000;
     contextCreationTime.observe(contextDurationSeconds);
 
@@ -104,77 +438,161 @@ async function doExtraction(
       resolvePromise = resolve;
     });
 
-    // Single route handler for blocking AND m3u8 detection
-    // (separate regex routes don't work reliably with URLs containing port numbers)
-    await context.route('**/*', async (route) => {
-      const url = route.request().url();
-      const resourceType = route.request().resourceType();
-
-      // Check for m3u8 FIRST (before any blocking)
-      if (url.includes('.m3u8') && !url.includes('.ts.m3u8')) {
-        // Race condition fix: check and set resolved atomically
-        if (resolved) {
-          await route.abort();
-          return;
-        }
-        resolved = true; // Set immediately before any async operations
+    const candidates: StreamCandidate[] = [];
+    // captureBody mode: playlist bodies by candidate URL
+    const capturedBodies = new Map<string, string>();
+    const pendingCaptures: Promise<void>[] = [];
+    const observedRequests = new Map<string, Record<string, string>>();
+    const observed = () => (observedRequests.size > 0 ? { observedRequests: Object.fromEntries(observedRequests) } : {});
+
+    const resultHeaders = (headers: Record<string, string>) =>
+      options.fullHeaders ? forwardedRequestHeaders(headers) : playbackHeaders(embedUrl, headers['referer']);
+
+    const observeDetection = () => {
+      // Track m3u8 detection time (from navigation start)
+      if (navigationStartTime > 0) {
+        const detectionSeconds = (Date.now() - navigationStartTime) / 1000;
+        m3u8DetectionTime.observe(detectionSeconds);
+      }
+      // Clear timeout since we found a stream
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+    };
+
+    const closeWindow = async () => {
+      windowTimer = null;
+      if (resolved) return;
+      resolved = true;
+      // A body fetch in flight has already spent its token; keep what it returns
+      await Promise.all(pendingCaptures);
+      const ranked = rankCandidates(candidates);
+      const best = ranked[0];
+      consola.info(`[Extractor] Capture window closed with ${ranked.length} candidate(s), picked ${best.format}: ${best.url}`);
+      const playlistBody = capturedBodies.get(best.url);
+      resolvePromise({
+        url: best.url,
+        headers: resultHeaders(best.headers),
+        ...(await captureCookies(context!, best.url)),
+        format: best.format,
+        detectionMethod: best.detectionMethod,
+        candidates: ranked,
+        ...(playlistBody !== undefined && { playlistBody }),
+        ...observed(),
+      });
+    };
+
+    // Shared by request interception and player hooks. `abort` cancels the
+    // intercepted request (a no-op for hooks, which fire before any request);
+    // `capture` fetches its body first, in captureBody mode.
+    const onStream = async (
+      hit: StreamHit,
+      abort: () => Promise<void>,
+      capture?: () => Promise<string | undefined>
+    ) => {
+      const { url, format, headers, detectionMethod } = hit;
+      // Race condition fix: check and set resolved atomically
+      if (resolved) {
+        await abort();
+        return;
+      }
 
-        // Track m3u8 detection time (from navigation start)
-        if (navigationStartTime > 0) {
-          const detectionSeconds = (Date.now() - navigationStartTime) / 1000;
-          m3u8DetectionTime.observe(detectionSeconds);
+      if (captureWindowMs > 0) {
+        // Record and keep listening: the first playlist is often an ad pre-roll.
+        // A hooked URL is usually requested right after; keep the first sighting.
+        const isNew = !candidates.some((c) => c.url === url);
+        if (isNew) {
+          candidates.push({
+            url,
+            format,
+            ...classifyStreamUrl(url, format),
+            frameUrl: hit.frameUrl,
+            headers,
+            detectionMethod,
+            detectedAfterMs: navigationStartTime > 0 ? Date.now() - navigationStartTime : 0,
+          });
+          consola.info(`[Extractor] Candidate ${format} stream #${candidates.length} via ${detectionMethod} (aborted to preserve token): ${url}`);
         }
-
-        // Clear timeout since we found m3u8
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
+        // Before the body fetch, as on the single-hit path: once it spends the
+        // token, the main timeout must no longer be able to resolve null
+        if (!windowTimer) {
+          observeDetection();
+          windowTimer = setTimeout(() => void closeWindow(), captureWindowMs);
         }
-
-        // Get referer from request headers
-        const headers = route.request().headers();
-        const m3u8Referer = headers['referer'] || null;
-
-        consola.info(`[Extractor] Found m3u8 (aborted to preserve token): ${url}`);
-
-        // Race condition fix: Capture cookies BEFORE aborting request
-        // to ensure context is still valid
-        let cookieString: string | undefined;
-        try {
-          const cookies = await context!.cookies();
-          if (cookies.length > 0) {
-            cookieString = cookies.map((c) => `${c.name}=${c.value}`).join('; ');
-            consola.debug(`[Extractor] Captured ${cookies.length} cookies`);
-          }
-        } catch {
-          consola.debug('[Extractor] Could not capture cookies');
+        if (isNew && capture) {
+          const pending = capture().then((body) => {
+            if (body !== undefined) capturedBodies.set(url, body);
+          });
+          pendingCaptures.push(pending);
+          await pending;
         }
+        await abort();
+        return;
+      }
 
-        // ABORT the request so the token isn't consumed
-        await route.abort();
+      resolved = true; // Set immediately before any async operations
+      observeDetection();
+
+      consola.info(`[Extractor] Found ${format} stream via ${detectionMethod} (aborted to preserve token): ${url}`);
+
+      // Race condition fix: Capture cookies BEFORE aborting request
+      // to ensure context is still valid
+      const captured = await captureCookies(context!, url);
+      // The one use of a single-use token goes to us rather than to the page
+      const playlistBody = capture && (await capture());
+
+      // ABORT the request so the token isn't consumed
+      await abort();
+
+      resolvePromise({
+        url,
+        headers: resultHeaders(headers),
+        ...captured,
+        format,
+        detectionMethod,
+        ...(playlistBody !== undefined && { playlistBody }),
+        ...observed(),
+      });
+    };
+
+    // Hook and response-body sightings have no request to abort. With
+    // fullHeaders they only predict the request Chrome is about to send, so
+    // hold them for that request and fall back to them if it never comes
+    // (e.g. a loader that fetches through MSE outside the route's view).
+    const heldSightings: StreamHit[] = [];
+    const onSighting = async (hit: StreamHit) => {
+      if (!options.fullHeaders) return onStream(hit, async () => {});
+      if (resolved) return;
+      heldSightings.push(hit);
+      sightingTimer ??= setTimeout(() => {
+        sightingTimer = null;
+        for (const held of heldSightings.splice(0)) void onStream(held, async () => {});
+      }, FULL_HEADERS_WAIT_MS);
+    };
 
-        // Use referer from request, or fall back to embed URL origin
-        let refererOrigin: string;
-        if (m3u8Referer) {
-          try {
-            refererOrigin = new URL(m3u8Referer).origin;
-          } catch {
-            refererOrigin = new URL(embedUrl).origin;
-          }
-        } else {
-          refererOrigin = new URL(embedUrl).origin;
-        }
+    // Single route handler for blocking AND m3u8 detection
+    // (separate regex routes don't work reliably with URLs containing port numbers)
+    await browserPool.routeContext(context, async (route) => {
+      const url = route.request().url();
+      const resourceType = route.request().resourceType();
 
-        resolvePromise({
-          url,
-          headers: {
-            Referer: refererOrigin + '/',
-            Origin: refererOrigin,
-            'User-Agent':
-              'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      // Check for the stream FIRST (before any blocking)
+      const format = detectStream(url, formats, matcher);
+      if (format) {
+        await onStream(
+          {
+            url,
+            format,
+            // Referer of the stream request feeds the playback headers;
+            // allHeaders() adds the ones headers() leaves out (e.g. Authorization)
+            headers: options.fullHeaders ? await route.request().allHeaders() : route.request().headers(),
+            frameUrl: requestFrameUrl(route.request()),
+            detectionMethod: 'network',
           },
-          cookies: cookieString,
-        });
+          () => route.abort(),
+          options.captureBody && format === 'hls' ? () => capturePlaylistBody(route) : undefined
+        );
         return;
       }
 
@@ -210,9 +628,43 @@ async function doExtraction(
         return;
       }
 
+      if (
+        options.observeRequests &&
+        OBSERVED_RESOURCE_TYPES.has(resourceType) &&
+        observedRequests.size < MAX_OBSERVED_REQUESTS
+      ) {
+        observedRequests.set(url, forwardedRequestHeaders(route.request().headers()));
+      }
       await route.continue();
     });
 
+    // A player config often carries the stream URL long before (or without)
+    // the gesture that makes the player request it
+    const sniffResponse = async (response: Response) => {
+      if (resolved || !isSniffableResponse(response)) return;
+      let body: Buffer;
+      try {
+        body = await response.body();
+      } catch {
+        return; // redirect, or the context closed first
+      }
+      if (body.length > SNIFF_MAX_BODY_BYTES) return;
+      for (const url of findUrlsInBody(body.toString('utf8'))) {
+        const format = detectStream(url, formats, matcher);
+        if (!format) continue;
+        consola.debug(`[Extractor] Response body of ${response.url()} lists ${url}`);
+        await onSighting({
+          url,
+          format,
+          headers: response.request().headers(),
+          frameUrl: requestFrameUrl(response.request()),
+          detectionMethod: 'response-body',
+        });
+      }
+    };
+    // captureBody needs the playlist request itself, so earlier sightings must not resolve
+    if (!options.captureBody) context.on('response', (response) => void sniffResponse(response));
+
     // Timeout handler with memory leak fix
     timeoutId = setTimeout(() => {
       if (!resolved) {
@@ -222,6 +674,25 @@ async function doExtraction(
       }
     }, timeout);
 
+    if (options.playerHooks !== false && !options.captureBody) {
+      // Players that build the URL client-side and feed it to MSE or a service
+      // worker never issue a request the route above can see
+      await context.exposeBinding(PLAYER_HOOK_BINDING, (source, url: unknown, hook: unknown) => {
+        if (typeof url !== 'string') return;
+        const format = hookStreamFormat(url, hook, formats, matcher);
+        if (!format) return;
+        const frameUrl = source.frame.url();
+        consola.debug(`[Extractor] Player hook ${String(hook)} reported ${url}`);
+        void onSighting({ url, format, headers: { referer: frameUrl }, frameUrl, detectionMethod: 'player-hook' });
+      });
+      await context.addInitScript({ content: PLAYER_HOOK_SCRIPT });
+    }
+
+    // Registered on the context so every frame, including iframes, gets them
+    for (const content of options.initScripts ?? []) {
+      await context.addInitScript({ content });
+    }
+
     const page = await context.newPage();
 
     // Track navigation start time for m3u8 detection metric (set before goto in case goto fails)
@@ -234,9 +705,15 @@ async function doExtraction(
     // Wait for page to settle (reduced from 2000ms)
     await page.waitForTimeout(500).catch(() => {});
 
+    if (options.actions?.length) {
+      // Don't hold the result for a step that is still waiting out its timeout
+      await Promise.race([runBrowserActions(page, options.actions, () => resolved), m3u8Promise]);
+      return await m3u8Promise;
+    }
+
     // Try clicking play on main page
     if (!resolved) {
-      await tryClickInFrame(page.mainFrame());
+      await tryClickInFrame(page.mainFrame(), playSelectors);
       await page.waitForTimeout(500).catch(() => {});
     }
 
@@ -244,7 +721,7 @@ async function doExtraction(
     if (!resolved) {
       const frames = page.frames().filter((f) => f !== page.mainFrame());
       if (frames.length > 0) {
-        await Promise.all(frames.map((frame) => tryClickInFrame(frame).catch(() => {})));
+        await Promise.all(frames.map((frame) => tryClickInFrame(frame, playSelectors).catch(() => {})));
       }
     }
 
@@ -259,6 +736,12 @@ async function doExtraction(
     if (timeoutId) {
       clearTimeout(timeoutId);
     }
+    if (windowTimer) {
+      clearTimeout(windowTimer);
+    }
+    if (sightingTimer) {
+      clearTimeout(sightingTimer);
+    }
     if (context) {
       // Clean up route handlers to release closures
       await context.unroute('**/*').catch(() => {});
@@ -276,11 +759,13 @@ export async function extractM3u8(
   timeout: number = 10000,
   priority: number = 0,
   queueEnqueueTime?: number,
-  referer?: string
+  options: BrowserExtractOptions = {}
 ): Promise<ExtractedStream | null> {
+  // An unusable proxy fails the request here, before it waits for a Chrome slot
+  const proxy = options.proxy ? browserProxy(options.proxy) : undefined;
   // Run with concurrency limiting and priority
   return browserPool.withLimit(
-    () => doExtraction(embedUrl, timeout, referer),
+    () => doExtraction(embedUrl, timeout, options, proxy),
     priority,
     queueEnqueueTime
   );
@@ -4,6 +4,7 @@ import healthRouter from './routes/health.js';
 import extractRouter from './routes/extract.js';
 import metricsRouter from './routes/metrics.js';
 import { browserPool } from './browserPool.js';
+import { loadStrategyDirectory } from './strategies/registry.js';
 
 const app = express();
 const metricsApp = express();
@@ -75,6 +76,9 @@ function startWatchdog(): void {
   }, WATCHDOG_INTERVAL);
 }
 
+// Provider adapters must be registered before the first request is validated
+await loadStrategyDirectory(process.env.STRATEGIES_DIR);
+
 // Start servers
 const server = app.listen(PORT, () => {
   consola.info(`[ExtractionWorker] Server running on port ${PORT}`);
@@ -82,6 +86,8 @@ const server = app.listen(PORT, () => {
   consola.info(`[ExtractionWorker] Extract: POST http://localhost:${PORT}/extract`);
   consola.info(`[ExtractionWorker] Watchdog exit threshold: ${CIRCUIT_BREAKER_EXIT_THRESHOLD / 1000}s`);
   startWatchdog();
+  // Launch Chrome and fill the warm context pool now rather than on the first request
+  browserPool.warmUp();
 });
 
 const metricsServer = metricsApp.listen(METRICS_PORT, () => {
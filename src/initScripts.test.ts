@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadInitScriptLibrary } from './initScripts.js';
+
+function writeLibrary(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'init-scripts-'));
+  for (const [name, source] of Object.entries(files)) writeFileSync(join(dir, name), source);
+  return dir;
+}
+
+// The library and the inline switch are read once at import, like profiles
+async function importWith(env: Record<string, string>) {
+  vi.resetModules();
+  for (const [k, v] of Object.entries(env)) vi.stubEnv(k, v);
+  return import('./initScripts.js');
+}
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe('loadInitScriptLibrary', () => {
+  it('keys .js files by name and ignores everything else', () => {
+    const dir = writeLibrary({ 'no-popups.js': 'window.open = () => null;', 'README.md': '#', 'bad name.js': 'x' });
+    expect([...loadInitScriptLibrary(dir)]).toEqual([['no-popups', 'window.open = () => null;']]);
+  });
+  it('degrades to an empty library', () => {
+    expect(loadInitScriptLibrary(undefined).size).toBe(0);
+    expect(loadInitScriptLibrary('/nonexistent/init-scripts').size).toBe(0);
+  });
+});
+
+describe('init script gating', () => {
+  it('rejects everything when the operator has enabled nothing', async () => {
+    const m = await importWith({});
+    expect(m.validateInitScriptName('no-popups')).toContain('not enabled');
+    expect(m.validateInlineInitScript('window.open = () => null;')).toContain('not enabled');
+    expect(m.resolveInitScripts('no-popups', 'window.open = () => null;')).toEqual([]);
+  });
+
+  it('resolves named scripts from INIT_SCRIPTS_DIR, named first', async () => {
+    const dir = writeLibrary({ 'no-popups.js': 'window.open = () => null;' });
+    const m = await importWith({ INIT_SCRIPTS_DIR: dir, ALLOW_INLINE_INIT_SCRIPTS: 'true' });
+    expect(m.validateInitScriptName('no-popups')).toBeNull();
+    expect(m.validateInitScriptName('other')).toBe('Unknown init script: other');
+    expect(m.resolveInitScripts('no-popups', 'navigator.x = 1;')).toEqual(['window.open = () => null;', 'navigator.x = 1;']);
+  });
+
+  it('caps inline scripts when they are allowed', async () => {
+    const m = await importWith({ ALLOW_INLINE_INIT_SCRIPTS: 'true' });
+    expect(m.validateInlineInitScript('navigator.x = 1;')).toBeNull();
+    expect(m.validateInlineInitScript('x'.repeat(m.MAX_INLINE_INIT_SCRIPT_BYTES + 1))).toContain('at most');
+    expect(m.resolveInitScripts('no-popups', undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import consola from 'consola';
+
+// Inline scripts are for hooks and stubs, not bundles
+export const MAX_INLINE_INIT_SCRIPT_BYTES = 64 * 1024;
+const SCRIPT_FILE = /^([a-z0-9][a-z0-9_-]*)\.js$/i;
+
+/**
+ * Read every `<name>.js` in `dir` into a name → source map. Like the profiles
+ * file, an unreadable directory or file degrades to "not available" rather
+ * than stopping the worker from booting.
+ */
+export function loadInitScriptLibrary(dir: string | undefined): Map<string, string> {
+  const library = new Map<string, string>();
+  if (!dir) return library;
+  let files: string[];
+  try {
+    files = readdirSync(dir);
+  } catch (err) {
+    consola.error(`[InitScripts] Could not read ${dir}, continuing without named init scripts:`, err);
+    return library;
+  }
+  for (const file of files) {
+    const name = basename(file).match(SCRIPT_FILE)?.[1];
+    if (!name) continue;
+    try {
+      library.set(name, readFileSync(join(dir, file), 'utf8'));
+    } catch (err) {
+      consola.warn(`[InitScripts] Skipping ${file}:`, err);
+    }
+  }
+  consola.info(`[InitScripts] Loaded ${library.size} named init script(s) from ${dir}`);
+  return library;
+}
+
+// Both switches are operator-only: a named script is code the operator
+// shipped, an inline one is code the caller sends to run in our Chrome.
+const library = loadInitScriptLibrary(process.env.INIT_SCRIPTS_DIR);
+const allowInline = process.env.ALLOW_INLINE_INIT_SCRIPTS === 'true';
+
+export function validateInitScriptName(v: unknown): string | null {
+  if (typeof v !== 'string') return 'initScriptName must be a string';
+  if (library.size === 0) return 'Named init scripts are not enabled on this worker (INIT_SCRIPTS_DIR)';
+  if (!library.has(v)) return `Unknown init script: ${v}`;
+  return null;
+}
+
+export function validateInlineInitScript(v: unknown): string | null {
+  if (typeof v !== 'string') return 'initScript must be a string';
+  if (!allowInline) return 'Inline init scripts are not enabled on this worker (ALLOW_INLINE_INIT_SCRIPTS)';
+  if (Buffer.byteLength(v) > MAX_INLINE_INIT_SCRIPT_BYTES) return `initScript may be at most ${MAX_INLINE_INIT_SCRIPT_BYTES} bytes`;
+  return null;
+}
+
+/**
+ * Sources to register with `context.addInitScript`, named script first.
+ * Anything the operator hasn't enabled is dropped here too, so code that
+ * reaches the dispatcher without going through the route can't enable one.
+ */
+export function resolveInitScripts(name?: string, inline?: string): string[] {
+  const scripts: string[] = [];
+  if (name !== undefined && validateInitScriptName(name) === null) scripts.push(library.get(name)!);
+  if (inline !== undefined && validateInlineInitScript(inline) === null) scripts.push(inline);
+  return scripts;
+}
@@ -87,6 +87,13 @@ export const browserDisconnects = new Counter({
   registers: [register],
 });
 
+export const warmContextRequests = new Counter({
+  name: 'extraction_worker_warm_context_requests_total',
+  help: 'Context requests served from the warm pool (hit) or created on demand (miss)',
+  labelNames: ['result'] as const,
+  registers: [register],
+});
+
 // --- Performance Breakdown ---
 export const queueWaitTime = new Histogram({
   name: 'extraction_worker_queue_wait_seconds',
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runInNewContext } from 'node:vm';
+import { PLAYER_HOOK_BINDING, PLAYER_HOOK_SCRIPT } from './playerHooks.js';
+
+// Just enough of a page for the hook script: a window with the binding, a
+// media element prototype with a `src` accessor, fetch and XHR.
+function createPage() {
+  const reports: Array<[string, string]> = [];
+  class HTMLMediaElement {
+    private value = '';
+    get src() { return this.value; }
+    set src(v: string) { this.value = v; }
+  }
+  class XMLHttpRequest {
+    open(_method: string, _url: string) {}
+  }
+  const page: Record<string, unknown> = {
+    location: { href: 'https://player.example.top/embed/1' },
+    URL,
+    Promise,
+    HTMLMediaElement,
+    XMLHttpRequest,
+    fetch: async () => ({ ok: true }),
+    [PLAYER_HOOK_BINDING]: (url: string, hook: string) => { reports.push([url, hook]); },
+  };
+  page.window = page;
+  runInNewContext(PLAYER_HOOK_SCRIPT, page);
+  return { page, reports, run: (code: string) => runInNewContext(code, page) };
+}
+
+describe('player hook script', () => {
+  let harness: ReturnType<typeof createPage>;
+  beforeEach(() => { harness = createPage(); });
+
+  it('reports Hls.loadSource for a library loaded after the hooks', () => {
+    harness.run(`
+      function HlsLib() {}
+      HlsLib.prototype.loadSource = function (src) { this.src = src; };
+      window.Hls = HlsLib;
+      const hls = new Hls();
+      hls.loadSource('/live/stream?id=7');
+      window.loaded = hls.src;
+    `);
+    expect(harness.reports).toEqual([['https://player.example.top/live/stream?id=7', 'hls']]);
+    // The original still runs
+    expect(harness.page.loaded).toBe('/live/stream?id=7');
+  });
+
+  it('reports jwplayer().setup sources and keeps statics on the factory', () => {
+    harness.run(`
+      const player = { setup(cfg) { this.cfg = cfg; return this; } };
+      window.jwplayer = function () { return player; };
+      jwplayer.key = 'abc';
+      jwplayer('p').setup({ playlist: [{ sources: [{ file: 'https://cdn.example.top/a/master.m3u8' }] }] });
+      window.key = jwplayer.key;
+    `);
+    expect(harness.reports).toEqual([['https://cdn.example.top/a/master.m3u8', 'jwplayer']]);
+    expect(harness.page.key).toBe('abc');
+  });
+
+  it('reports videojs options and src() calls but not src() reads', () => {
+    harness.run(`
+      const player = { current: '', src(s) { if (s) this.current = s; return this.current; } };
+      window.videojs = function () { return player; };
+      const p = videojs('v', { sources: [{ src: 'https://cdn.example.top/b.m3u8', type: 'application/x-mpegURL' }] });
+      p.src({ src: 'https://cdn.example.top/c.m3u8' });
+      p.src();
+    `);
+    expect(harness.reports).toEqual([
+      ['https://cdn.example.top/b.m3u8', 'videojs'],
+      ['https://cdn.example.top/c.m3u8', 'videojs'],
+    ]);
+  });
+
+  it('reports media element src but never blob: URLs', () => {
+    harness.run(`
+      const v = new HTMLMediaElement();
+      v.src = 'blob:https://player.example.top/1234';
+      v.src = 'https://cdn.example.top/d.mp4';
+      window.current = v.src;
+    `);
+    expect(harness.reports).toEqual([['https://cdn.example.top/d.mp4', 'media']]);
+    expect(harness.page.current).toBe('https://cdn.example.top/d.mp4');
+  });
+
+  it('reports only stream-looking fetch and XHR URLs', () => {
+    harness.run(`
+      fetch('/api/config.json');
+      fetch({ url: 'https://cdn.example.top/e.m3u8?t=1' });
+      const x = new XMLHttpRequest();
+      x.open('GET', '/stats');
+      x.open('GET', 'https://cdn.example.top/f.mpd');
+    `);
+    expect(harness.reports).toEqual([
+      ['https://cdn.example.top/e.m3u8?t=1', 'fetch'],
+      ['https://cdn.example.top/f.mpd', 'xhr'],
+    ]);
+  });
+});
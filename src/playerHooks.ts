@@ -0,0 +1,112 @@
+// Page-side function the hook script reports through (context.exposeBinding)
+export const PLAYER_HOOK_BINDING = '__extractorStreamHook';
+
+// Which hook saw the URL: a player API, a media element, or a request API
+export type PlayerHook = 'hls' | 'jwplayer' | 'videojs' | 'media' | 'fetch' | 'xhr';
+
+/**
+ * Runs in every frame before page scripts (context.addInitScript). Player
+ * globals don't exist yet, so `Hls`, `jwplayer` and `videojs` are trapped on
+ * assignment and wrapped in Proxies (statics like `jwplayer.key` pass
+ * through). Request APIs only report stream-looking URLs so ordinary
+ * traffic doesn't cross the binding. Every hook swallows its own errors: it
+ * must never change what the player does.
+ */
+export const PLAYER_HOOK_SCRIPT = String.raw`(() => {
+  const BINDING = ${JSON.stringify(PLAYER_HOOK_BINDING)};
+  const STREAM_HINT = /\.(m3u8|mpd|mp4|m4v)(\?|#|$)/i;
+  const hooked = new WeakSet();
+
+  const report = (url, hook) => {
+    try {
+      if (typeof url !== 'string' || !url || /^(blob|data):/i.test(url)) return;
+      const fn = window[BINDING];
+      if (typeof fn === 'function') Promise.resolve(fn(new URL(url, location.href).href, hook)).catch(() => {});
+    } catch {}
+  };
+  // jwplayer / video.js source configs: strings, { file | src }, sources / playlist lists
+  const collect = (v, hook, depth = 0) => {
+    if (depth > 6 || v == null) return;
+    if (typeof v === 'string') return report(v, hook);
+    if (Array.isArray(v)) return v.slice(0, 20).forEach((x) => collect(x, hook, depth + 1));
+    if (typeof v !== 'object') return;
+    collect(v.file, hook, depth + 1);
+    collect(v.src, hook, depth + 1);
+    collect(v.sources, hook, depth + 1);
+    collect(v.playlist, hook, depth + 1);
+  };
+  const wrapMethod = (obj, name, before) => {
+    try {
+      const orig = obj && obj[name];
+      if (typeof orig !== 'function' || hooked.has(orig)) return;
+      const wrapped = function (...args) {
+        try { before(args); } catch {}
+        return orig.apply(this, args);
+      };
+      hooked.add(wrapped);
+      obj[name] = wrapped;
+    } catch {}
+  };
+  const trapGlobal = (name, wrap) => {
+    try {
+      let value = window[name] === undefined ? undefined : wrap(window[name]);
+      Object.defineProperty(window, name, {
+        configurable: true,
+        enumerable: true,
+        get: () => value,
+        set: (v) => { value = wrap(v); },
+      });
+    } catch {}
+  };
+  const wrapFactory = (factory, onPlayer, onArgs) => {
+    if (typeof factory !== 'function' || hooked.has(factory)) return factory;
+    const proxy = new Proxy(factory, {
+      apply(target, thisArg, args) {
+        try { onArgs && onArgs(args); } catch {}
+        const player = Reflect.apply(target, thisArg, args);
+        try { if (player && typeof player === 'object' && !hooked.has(player)) { hooked.add(player); onPlayer(player); } } catch {}
+        return player;
+      },
+    });
+    hooked.add(proxy);
+    return proxy;
+  };
+
+  trapGlobal('Hls', (Hls) => {
+    if (typeof Hls === 'function') wrapMethod(Hls.prototype, 'loadSource', (args) => report(args[0], 'hls'));
+    return Hls;
+  });
+  trapGlobal('jwplayer', (jw) =>
+    wrapFactory(jw, (player) => {
+      wrapMethod(player, 'setup', (args) => collect(args[0], 'jwplayer'));
+      wrapMethod(player, 'load', (args) => collect(args[0], 'jwplayer'));
+    })
+  );
+  trapGlobal('videojs', (vjs) =>
+    wrapFactory(
+      vjs,
+      (player) => wrapMethod(player, 'src', (args) => { if (args.length > 0) collect(args[0], 'videojs'); }),
+      (args) => collect(args[1], 'videojs')
+    )
+  );
+
+  try {
+    const desc = Object.getOwnPropertyDescriptor(HTMLMediaElement.prototype, 'src');
+    if (desc && desc.set) {
+      Object.defineProperty(HTMLMediaElement.prototype, 'src', {
+        ...desc,
+        set(v) { report(String(v), 'media'); return desc.set.call(this, v); },
+      });
+    }
+  } catch {}
+
+  wrapMethod(window, 'fetch', (args) => {
+    // string, URL or Request
+    const url = args[0] && typeof args[0].url === 'string' ? args[0].url : String(args[0]);
+    if (STREAM_HINT.test(url)) report(url, 'fetch');
+  });
+  wrapMethod(XMLHttpRequest.prototype, 'open', (args) => {
+    if (STREAM_HINT.test(String(args[1]))) report(String(args[1]), 'xhr');
+  });
+})();`;
+
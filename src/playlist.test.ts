@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseAttributeList,
+  parseMasterPlaylist,
+  parseEncryption,
+  fetchPlaylistInfo,
+  verifyPlayback,
+  absolutizePlaylist,
+} from './playlist.js';
+
+const MASTER = [
+  '#EXTM3U',
+  '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,URI="audio/en.m3u8"',
+  '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Español",LANGUAGE="es",DEFAULT=NO,URI="/subs/es.m3u8"',
+  '#EXT-X-MEDIA:TYPE=CLOSED-CAPTIONS,GROUP-ID="cc",NAME="CC1",INSTREAM-ID="CC1"',
+  '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="aud"',
+  '360/index.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2800000,AVERAGE-BANDWIDTH=2500000,RESOLUTION=1280x720,FRAME-RATE=29.970,CODECS="avc1.64001f,mp4a.40.2",AUDIO="aud",SUBTITLES="subs"',
+  'https://other.cdn/720/index.m3u8?token=abc',
+  '',
+].join('\n');
+
+describe('parseAttributeList', () => {
+  it('keeps commas inside quoted values', () => {
+    expect(parseAttributeList('BANDWIDTH=1,CODECS="a,b",RESOLUTION=1x1')).toEqual({
+      BANDWIDTH: '1',
+      CODECS: 'a,b',
+      RESOLUTION: '1x1',
+    });
+  });
+});
+
+describe('parseMasterPlaylist', () => {
+  const info = parseMasterPlaylist(MASTER, 'https://cdn.example.com/live/master.m3u8?token=t')!;
+
+  it('returns variants highest bandwidth first with absolute URIs', () => {
+    expect(info.variants).toEqual([
+      {
+        uri: 'https://other.cdn/720/index.m3u8?token=abc',
+        bandwidth: 2800000,
+        averageBandwidth: 2500000,
+        resolution: '1280x720',
+        codecs: 'avc1.64001f,mp4a.40.2',
+        frameRate: 29.97,
+        audio: 'aud',
+        subtitles: 'subs',
+      },
+      {
+        uri: 'https://cdn.example.com/live/360/index.m3u8',
+        bandwidth: 800000,
+        averageBandwidth: undefined,
+        resolution: '640x360',
+        codecs: 'avc1.4d401e,mp4a.40.2',
+        frameRate: undefined,
+        audio: 'aud',
+        subtitles: undefined,
+      },
+    ]);
+  });
+  it('returns audio and subtitle renditions, skipping closed captions', () => {
+    expect(info.media).toEqual([
+      {
+        type: 'AUDIO',
+        groupId: 'aud',
+        name: 'English',
+        language: 'en',
+        default: true,
+        autoselect: true,
+        uri: 'https://cdn.example.com/live/audio/en.m3u8',
+      },
+      {
+        type: 'SUBTITLES',
+        groupId: 'subs',
+        name: 'Español',
+        language: 'es',
+        default: false,
+        autoselect: false,
+        uri: 'https://cdn.example.com/subs/es.m3u8',
+      },
+    ]);
+  });
+  it('returns empty lists for a media playlist', () => {
+    const media = '#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6,\nseg1.ts\n';
+    expect(parseMasterPlaylist(media, 'https://cdn/x.m3u8')).toEqual({ variants: [], media: [] });
+  });
+  it('returns null for a body that is not a playlist', () => {
+    expect(parseMasterPlaylist('<html>403</html>', 'https://cdn/x.m3u8')).toBeNull();
+  });
+  it('skips variants and renditions whose URI cannot be resolved', () => {
+    const body = [
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Broken",URI="http://[bad/a.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000',
+      'http://[bad/x.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000',
+      '360/index.m3u8',
+    ].join('\n');
+    expect(parseMasterPlaylist(body, 'https://cdn.example.com/live/master.m3u8')).toEqual({
+      variants: [expect.objectContaining({ uri: 'https://cdn.example.com/live/360/index.m3u8', bandwidth: 800000 })],
+      media: [],
+    });
+  });
+});
+
+const KEYED_MEDIA = [
+  '#EXTM3U',
+  '#EXT-X-TARGETDURATION:6',
+  '#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"',
+  '#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k/1?t=x",IV=0x0000000000000000000000000000000A',
+  '#EXTINF:6,',
+  'seg1.m4s',
+  '#EXT-X-KEY:METHOD=NONE',
+  '#EXTINF:6,',
+  'seg2.m4s',
+  '#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k/1?t=x",IV=0x0000000000000000000000000000000A',
+  '#EXTINF:6,',
+  'seg3.m4s',
+].join('\n');
+
+describe('parseEncryption', () => {
+  it('collects keys (minus METHOD=NONE) and init segments with absolute URIs', () => {
+    const found = parseEncryption(KEYED_MEDIA, 'https://cdn.example.com/live/720/index.m3u8');
+    expect(found.keys[0]).toEqual({
+      method: 'AES-128',
+      uri: 'https://keys.example.com/k/1?t=x',
+      iv: '0x0000000000000000000000000000000A',
+      keyFormat: undefined,
+    });
+    expect(found.keys).toHaveLength(2);
+    expect(found.initSegments).toEqual([{ uri: 'https://cdn.example.com/live/720/init.mp4', byteRange: '720@0' }]);
+  });
+  it('skips key and map tags whose URI cannot be resolved', () => {
+    const body = '#EXTM3U\n#EXT-X-MAP:URI="http://[bad/init.mp4"\n#EXT-X-KEY:METHOD=AES-128,URI="http://[bad/k"\n';
+    expect(parseEncryption(body, 'https://cdn/m.m3u8')).toEqual({ keys: [], initSegments: [] });
+  });
+  it('reads session keys from a master playlist', () => {
+    const master = '#EXTM3U\n#EXT-X-SESSION-KEY:METHOD=SAMPLE-AES,URI="skd://key1",KEYFORMAT="com.apple.streamingkeydelivery"\n';
+    expect(parseEncryption(master, 'https://cdn/m.m3u8').keys).toEqual([
+      { method: 'SAMPLE-AES', uri: 'skd://key1', iv: undefined, keyFormat: 'com.apple.streamingkeydelivery' },
+    ]);
+  });
+});
+
+describe('absolutizePlaylist', () => {
+  it('rewrites URI lines and URI attributes, keeping line endings', () => {
+    const body = [
+      '#EXTM3U',
+      '#EXT-X-KEY:METHOD=AES-128,URI="../keys/k1",IV=0x01',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:6,',
+      'seg1.ts?t=1',
+      '#EXTINF:6,',
+      'https://other.cdn/seg2.ts',
+      '',
+    ].join('\r\n');
+    expect(absolutizePlaylist(body, 'https://cdn.example.com/live/720/index.m3u8?token=t')).toBe(
+      [
+        '#EXTM3U',
+        '#EXT-X-KEY:METHOD=AES-128,URI="https://cdn.example.com/live/keys/k1",IV=0x01',
+        '#EXT-X-MAP:URI="https://cdn.example.com/live/720/init.mp4"',
+        '#EXTINF:6,',
+        'https://cdn.example.com/live/720/seg1.ts?t=1',
+        '#EXTINF:6,',
+        'https://other.cdn/seg2.ts',
+        '',
+      ].join('\r\n')
+    );
+  });
+});
+
+describe('fetchPlaylistInfo', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('fetches with the playback headers and cookies', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(MASTER, { status: 200 }));
+    const info = await fetchPlaylistInfo({
+      url: 'https://cdn.example.com/live/master.m3u8',
+      headers: { Referer: 'https://embed.example.com/' },
+      cookies: 'a=1',
+    });
+    expect(info?.variants).toHaveLength(2);
+    expect(vi.mocked(fetch).mock.calls[0][1]?.headers).toEqual({ Referer: 'https://embed.example.com/', Cookie: 'a=1' });
+  });
+  it('follows the top variant for keys and init segments, with observed headers', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(MASTER, { status: 200 }))
+      .mockResolvedValueOnce(new Response(KEYED_MEDIA, { status: 200 }));
+    const keyHeaders = { Referer: 'https://player.example.com/e/1', 'X-Key-Token': 'kt', 'User-Agent': 'UA' };
+    const info = await fetchPlaylistInfo({
+      url: 'https://cdn.example.com/live/master.m3u8',
+      observedRequests: { 'https://keys.example.com/k/1?t=x': keyHeaders },
+    });
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://other.cdn/720/index.m3u8?token=abc');
+    // The repeated key tag is deduped
+    expect(info?.keys).toEqual([
+      {
+        method: 'AES-128',
+        uri: 'https://keys.example.com/k/1?t=x',
+        iv: '0x0000000000000000000000000000000A',
+        keyFormat: undefined,
+        headers: keyHeaders,
+      },
+    ]);
+    expect(info?.initSegments).toEqual([{ uri: 'https://other.cdn/720/init.mp4', byteRange: '720@0' }]);
+  });
+  it('parses a captured body without fetching it again', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('nope', { status: 403 }));
+    const info = await fetchPlaylistInfo({ url: 'https://cdn.example.com/live/master.m3u8', playlistBody: MASTER });
+    expect(info?.variants).toHaveLength(2);
+    // Only the variant (for its keys) is fetched
+    expect(vi.mocked(fetch).mock.calls.map((c) => c[0])).toEqual(['https://other.cdn/720/index.m3u8?token=abc']);
+  });
+  it('returns null on a non-200 response', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('nope', { status: 403 }));
+    expect(await fetchPlaylistInfo({ url: 'https://cdn.example.com/m.m3u8' })).toBeNull();
+  });
+  it('does not throw on a variant URI that cannot be resolved', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\nhttp://[bad/x.m3u8\n', { status: 200 }));
+    expect(await fetchPlaylistInfo({ url: 'https://cdn.example.com/m.m3u8' })).toEqual({
+      variants: [],
+      media: [],
+      keys: [],
+      initSegments: [],
+    });
+  });
+  it('returns null instead of throwing when the fetch fails', async () => {
+    vi.mocked(fetch).mockRejectedValue(new Error('reset'));
+    expect(await fetchPlaylistInfo({ url: 'https://cdn.example.com/m.m3u8' })).toBeNull();
+  });
+});
+
+describe('verifyPlayback', () => {
+  const MEDIA = '#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6,\nseg1.ts\n';
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('follows the top variant down to a media playlist with segments', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(MASTER, { status: 200 }))
+      .mockResolvedValueOnce(new Response(MEDIA, { status: 200 }));
+    const check = await verifyPlayback({ url: 'https://cdn.example.com/live/master.m3u8', cookies: 'a=1' });
+    expect(check.verified).toBe(true);
+    expect(check.reason).toBeUndefined();
+    expect(check.playlist?.variants).toHaveLength(2);
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://other.cdn/720/index.m3u8?token=abc');
+    expect(vi.mocked(fetch).mock.calls[1][1]?.headers).toEqual({ Cookie: 'a=1' });
+  });
+  it('checks a captured body instead of spending the token again', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(MEDIA, { status: 200 }));
+    const check = await verifyPlayback({ url: 'https://cdn.example.com/live/master.m3u8', playlistBody: MASTER });
+    expect(check.verified).toBe(true);
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://other.cdn/720/index.m3u8?token=abc');
+  });
+  it('accepts a media playlist directly', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(MEDIA, { status: 200 }));
+    expect(await verifyPlayback({ url: 'https://cdn.example.com/live/index.m3u8' })).toEqual({
+      verified: true,
+      playlist: { variants: [], media: [], keys: [], initSegments: [] },
+    });
+  });
+  it('reports a rejected playlist request', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('nope', { status: 403 }));
+    expect(await verifyPlayback({ url: 'https://cdn.example.com/m.m3u8' })).toEqual({
+      verified: false,
+      reason: 'HTTP 403 for https://cdn.example.com/m.m3u8',
+    });
+  });
+  it('reports a body that is not a playlist', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('<html>denied</html>', { status: 200 }));
+    expect((await verifyPlayback({ url: 'https://cdn.example.com/m.m3u8' })).reason).toContain('#EXTM3U');
+  });
+  it('reports a failed variant and an empty media playlist', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(MASTER, { status: 200 }))
+      .mockResolvedValueOnce(new Response('gone', { status: 410 }));
+    const variant = await verifyPlayback({ url: 'https://cdn.example.com/live/master.m3u8' });
+    expect(variant).toMatchObject({ verified: false, reason: 'variant: HTTP 410 for https://other.cdn/720/index.m3u8?token=abc' });
+
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('#EXTM3U\n#EXT-X-TARGETDURATION:6\n', { status: 200 }));
+    expect(await verifyPlayback({ url: 'https://cdn.example.com/live/index.m3u8' })).toMatchObject({
+      verified: false,
+      reason: 'media playlist lists no segments',
+    });
+  });
+  it('does not fetch non-HLS streams', async () => {
+    const check = await verifyPlayback({ url: 'https://cdn.example.com/m.mpd', format: 'dash' });
+    expect(check).toEqual({ verified: false, reason: 'dash streams cannot be verified (HLS only)' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,318 @@
+import consola from 'consola';
+import type { ExtractedStream } from './extractor.js';
+import { safeFetch } from './strategies/safeFetch.js';
+
+const PLAYLIST_TIMEOUT_MS = 10000;
+
+export interface PlaylistVariant {
+  uri: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  resolution?: string;
+  codecs?: string;
+  frameRate?: number;
+  audio?: string;
+  subtitles?: string;
+}
+
+export interface PlaylistMedia {
+  type: 'AUDIO' | 'SUBTITLES';
+  groupId: string;
+  name: string;
+  language?: string;
+  default: boolean;
+  autoselect: boolean;
+  // Absent when the rendition is muxed into the variant streams
+  uri?: string;
+}
+
+// EXT-X-KEY / EXT-X-SESSION-KEY. METHOD=NONE entries are dropped.
+export interface PlaylistKey {
+  method: string;
+  uri?: string;
+  iv?: string;
+  keyFormat?: string;
+  // Headers Chrome sent for this URI, when the page requested it during extraction
+  headers?: Record<string, string>;
+}
+
+// EXT-X-MAP: the fMP4 init segment every media segment depends on
+export interface PlaylistInitSegment {
+  uri: string;
+  byteRange?: string;
+  headers?: Record<string, string>;
+}
+
+export interface PlaylistInfo {
+  variants: PlaylistVariant[];
+  media: PlaylistMedia[];
+  // From the master's session keys and the top variant's media playlist (fetchPlaylistInfo only)
+  keys?: PlaylistKey[];
+  initSegments?: PlaylistInitSegment[];
+}
+
+export interface PlaybackCheck {
+  verified: boolean;
+  // Why the stream failed verification (absent when verified)
+  reason?: string;
+  // The parsed master, so a parsePlaylist request doesn't fetch it twice
+  playlist?: PlaylistInfo;
+}
+
+// RFC 8216 §4.2 attribute list: KEY=VALUE pairs, where quoted values may
+// contain commas (CODECS="avc1.64001f,mp4a.40.2").
+export function parseAttributeList(list: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(list)) !== null) {
+    const value = m[2];
+    attrs[m[1]] = value.startsWith('"') ? value.slice(1, -1) : value;
+  }
+  return attrs;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Absolute URL for a playlist URI, or null when it can't be resolved
+function resolveUri(uri: string, baseUrl: string): string | null {
+  try {
+    return new URL(uri, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the variant and rendition entries of an HLS master playlist. URIs are
+ * resolved against `baseUrl`; an entry whose URI can't be resolved is skipped.
+ * A media playlist (no EXT-X-STREAM-INF) yields empty lists; anything that
+ * isn't a playlist at all returns null.
+ */
+export function parseMasterPlaylist(body: string, baseUrl: string): PlaylistInfo | null {
+  const lines = body.split(/\r?\n/).map((l) => l.trim());
+  if (lines[0]?.replace(/^\uFEFF/, '') !== '#EXTM3U') return null;
+
+  const variants: PlaylistVariant[] = [];
+  const media: PlaylistMedia[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attrs = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length));
+      // The variant URI is the next non-blank, non-tag line
+      let j = i + 1;
+      while (j < lines.length && (lines[j] === '' || lines[j].startsWith('#'))) j++;
+      if (j >= lines.length) break;
+      i = j;
+      const uri = resolveUri(lines[j], baseUrl);
+      if (!uri) continue;
+      variants.push({
+        uri,
+        bandwidth: optionalNumber(attrs.BANDWIDTH) ?? 0,
+        averageBandwidth: optionalNumber(attrs['AVERAGE-BANDWIDTH']),
+        resolution: attrs.RESOLUTION,
+        codecs: attrs.CODECS,
+        frameRate: optionalNumber(attrs['FRAME-RATE']),
+        audio: attrs.AUDIO,
+        subtitles: attrs.SUBTITLES,
+      });
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributeList(line.slice('#EXT-X-MEDIA:'.length));
+      if (attrs.TYPE !== 'AUDIO' && attrs.TYPE !== 'SUBTITLES') continue;
+      const uri = attrs.URI ? resolveUri(attrs.URI, baseUrl) : undefined;
+      if (uri === null) continue;
+      media.push({
+        type: attrs.TYPE,
+        groupId: attrs['GROUP-ID'] ?? '',
+        name: attrs.NAME ?? '',
+        language: attrs.LANGUAGE,
+        default: attrs.DEFAULT === 'YES',
+        autoselect: attrs.AUTOSELECT === 'YES',
+        uri,
+      });
+    }
+  }
+
+  // Highest quality first, so callers can take variants[0]
+  variants.sort((a, b) => b.bandwidth - a.bandwidth);
+  return { variants, media };
+}
+
+/**
+ * Collect the key and init-segment tags of a playlist, URIs resolved against
+ * `baseUrl` (a tag whose URI can't be resolved is skipped). Works on masters
+ * (EXT-X-SESSION-KEY) and media playlists alike.
+ */
+export function parseEncryption(body: string, baseUrl: string): { keys: PlaylistKey[]; initSegments: PlaylistInitSegment[] } {
+  const keys: PlaylistKey[] = [];
+  const initSegments: PlaylistInitSegment[] = [];
+  for (const raw of body.split(/\r?\n/)) {
+    const line = raw.trim();
+    const keyTag = ['#EXT-X-KEY:', '#EXT-X-SESSION-KEY:'].find((t) => line.startsWith(t));
+    if (keyTag) {
+      const attrs = parseAttributeList(line.slice(keyTag.length));
+      if (!attrs.METHOD || attrs.METHOD === 'NONE') continue;
+      const uri = attrs.URI ? resolveUri(attrs.URI, baseUrl) : undefined;
+      if (uri === null) continue;
+      keys.push({
+        method: attrs.METHOD,
+        uri,
+        iv: attrs.IV,
+        keyFormat: attrs.KEYFORMAT,
+      });
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attrs = parseAttributeList(line.slice('#EXT-X-MAP:'.length));
+      const uri = attrs.URI ? resolveUri(attrs.URI, baseUrl) : null;
+      if (uri) initSegments.push({ uri, byteRange: attrs.BYTERANGE });
+    }
+  }
+  return { keys, initSegments };
+}
+
+/**
+ * Rewrite every URI in a playlist (segment and variant lines, plus `URI="…"`
+ * attributes on EXT-X-KEY / EXT-X-MAP / EXT-X-MEDIA and friends) to an
+ * absolute URL against `baseUrl`, so the body still works once it has left
+ * its origin. Line endings and everything else are kept as they were.
+ */
+export function absolutizePlaylist(body: string, baseUrl: string): string {
+  const resolve = (uri: string) => resolveUri(uri, baseUrl) ?? uri;
+  return body
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === '') return line;
+      if (trimmed.startsWith('#')) return line.replace(/URI="([^"]*)"/g, (_, uri: string) => `URI="${resolve(uri)}"`);
+      return line.replace(trimmed, resolve(trimmed));
+    })
+    .join('\n');
+}
+
+// Same headers the caller will play with, so the CDN sees an identical request
+export function playbackHeaders(stream: ExtractedStream): Record<string, string> {
+  const headers = { ...stream.headers };
+  if (stream.cookies) headers.Cookie = stream.cookies;
+  return headers;
+}
+
+interface FetchedPlaylist {
+  body: string;
+  // Post-redirect URL: relative URIs resolve against it
+  url: string;
+}
+
+// The playlist, or why the fetch failed
+async function fetchPlaylistBody(
+  url: string,
+  headers: Record<string, string>,
+  proxy?: string
+): Promise<FetchedPlaylist | { error: string }> {
+  try {
+    const res = await safeFetch(url, { timeout: PLAYLIST_TIMEOUT_MS, headers, proxy });
+    if (!res) return { error: `blocked fetch of ${url}` };
+    if (res.status !== 200) {
+      res.body?.cancel().catch(() => {});
+      return { error: `HTTP ${res.status} for ${url}` };
+    }
+    return { body: await res.text(), url: res.url || url };
+  } catch (err) {
+    return { error: `fetch failed for ${url}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+/**
+ * Fetch the captured playlist with its playback headers and parse it (or
+ * parse the body captured in captureBody mode). Never throws: a failed fetch
+ * or unparseable body just means no variant info.
+ * NOTE: a fetch spends a request on the URL, so single-use tokens are consumed.
+ * `proxy` should be the one the stream was extracted through: tokens are often
+ * bound to the client IP.
+ */
+export async function fetchPlaylistInfo(stream: ExtractedStream, proxy?: string): Promise<PlaylistInfo | null> {
+  const headers = playbackHeaders(stream);
+  // A captured body is the only copy a single-use token will ever give us
+  const master =
+    stream.playlistBody !== undefined
+      ? { body: stream.playlistBody, url: stream.url }
+      : await fetchPlaylistBody(stream.url, headers, proxy);
+  if ('error' in master) {
+    consola.debug(`[Playlist] ${master.error}`);
+    return null;
+  }
+  const info = parseMasterPlaylist(master.body, master.url);
+  if (!info) return null;
+  if (info.variants.length === 0) return withEncryption(info, [master], stream);
+  // Keys and init segments are declared per media playlist; the top variant's stand in for all
+  const variant = await fetchPlaylistBody(info.variants[0].uri, headers, proxy);
+  if ('error' in variant) consola.debug(`[Playlist] variant: ${variant.error}`);
+  return withEncryption(info, 'error' in variant ? [master] : [master, variant], stream);
+}
+
+/**
+ * Add the keys and init segments of `playlists` to `info`, deduped, each with
+ * the headers Chrome sent for its URI if the page requested it while the
+ * browser was open (a key server may want different headers from the CDN).
+ */
+function withEncryption(info: PlaylistInfo, playlists: FetchedPlaylist[], stream: ExtractedStream): PlaylistInfo {
+  const keys = new Map<string, PlaylistKey>();
+  const initSegments = new Map<string, PlaylistInitSegment>();
+  const observed = (uri: string | undefined) => (uri ? stream.observedRequests?.[uri] : undefined);
+  for (const playlist of playlists) {
+    const found = parseEncryption(playlist.body, playlist.url);
+    for (const key of found.keys) {
+      const headers = observed(key.uri);
+      keys.set(`${key.method} ${key.uri} ${key.iv}`, headers ? { ...key, headers } : key);
+    }
+    for (const segment of found.initSegments) {
+      const headers = observed(segment.uri);
+      initSegments.set(`${segment.uri} ${segment.byteRange}`, headers ? { ...segment, headers } : segment);
+    }
+  }
+  return { ...info, keys: [...keys.values()], initSegments: [...initSegments.values()] };
+}
+
+// Segments are the URIs following #EXTINF tags
+function countSegments(body: string): number {
+  return body.split(/\r?\n/).filter((l) => l.trim().startsWith('#EXTINF:')).length;
+}
+
+/**
+ * Confirm the stream plays the way a client would see it: the URL returns
+ * `#EXTM3U`, and (for a master) the top variant returns a media playlist with
+ * at least one segment. Never throws; failures come back as `reason`.
+ * NOTE: like fetchPlaylistInfo, this spends the token on single-use URLs,
+ * and should go through the same `proxy` as the extraction.
+ */
+export async function verifyPlayback(stream: ExtractedStream, proxy?: string): Promise<PlaybackCheck> {
+  if (stream.format && stream.format !== 'hls') {
+    return { verified: false, reason: `${stream.format} streams cannot be verified (HLS only)` };
+  }
+  const headers = playbackHeaders(stream);
+  const master =
+    stream.playlistBody !== undefined
+      ? { body: stream.playlistBody, url: stream.url }
+      : await fetchPlaylistBody(stream.url, headers, proxy);
+  if ('error' in master) return { verified: false, reason: master.error };
+  const playlist = parseMasterPlaylist(master.body, master.url);
+  if (!playlist) return { verified: false, reason: 'response is not an HLS playlist (no #EXTM3U)' };
+
+  let media = master;
+  if (playlist.variants.length > 0) {
+    const variant = await fetchPlaylistBody(playlist.variants[0].uri, headers, proxy);
+    if ('error' in variant) {
+      return { verified: false, reason: `variant: ${variant.error}`, playlist: withEncryption(playlist, [master], stream) };
+    }
+    if (!parseMasterPlaylist(variant.body, variant.url)) {
+      return { verified: false, reason: 'variant is not an HLS playlist (no #EXTM3U)', playlist: withEncryption(playlist, [master], stream) };
+    }
+    media = variant;
+  }
+  const checked = withEncryption(playlist, media === master ? [master] : [master, media], stream);
+  if (countSegments(media.body) === 0) return { verified: false, reason: 'media playlist lists no segments', playlist: checked };
+  return { verified: true, playlist: checked };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ProfileRegistry, parseProfiles, loadProfiles } from './profiles.js';
+
+function writeTmp(name: string, contents: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'profiles-')), name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+describe('ProfileRegistry', () => {
+  const registry = new ProfileRegistry({
+    'embed.example.top': { strategy: 'http-token' },
+    '*.example.top': { strategy: 'signed-url' },
+    'mirror*.example.st': { referer: 'https://parent.example.st/' },
+  });
+
+  it('prefers an exact hostname over a matching glob', () => {
+    expect(registry.match('https://embed.example.top/e/1')).toEqual({ strategy: 'http-token' });
+  });
+  it('falls back to a glob match, case-insensitively', () => {
+    expect(registry.match('https://CDN.Example.top/x')).toEqual({ strategy: 'signed-url' });
+    expect(registry.match('https://mirror3.example.st/x')?.referer).toBe('https://parent.example.st/');
+  });
+  it('returns null for unknown hosts and unparseable URLs', () => {
+    expect(registry.match('https://other.example.com/')).toBeNull();
+    expect(registry.match('not a url')).toBeNull();
+  });
+  it('does not treat glob dots as wildcards', () => {
+    expect(registry.match('https://mirror1xexample.st/')).toBeNull();
+  });
+});
+
+describe('parseProfiles', () => {
+  it('parses YAML', () => {
+    const out = parseProfiles('embed.example.top:\n  strategy: auto\n  timeout: 8000\n  playSelectors: [".go"]\n');
+    expect(out).toEqual({ 'embed.example.top': { strategy: 'auto', timeout: 8000, playSelectors: ['.go'] } });
+  });
+  it('parses JSON', () => {
+    expect(parseProfiles('{"a.top": {"pattern": "x"}}')).toEqual({ 'a.top': { pattern: 'x' } });
+  });
+  it('drops unknown and mistyped fields but keeps the rest of the profile', () => {
+    const out = parseProfiles('{"a.top": {"pattern": "x", "timeout": "fast", "colour": "red"}}');
+    expect(out).toEqual({ 'a.top': { pattern: 'x' } });
+  });
+  it('keeps a valid jsonApi block and drops one with a bad path', () => {
+    const out = parseProfiles(
+      '{"a.top": {"jsonApi": {"url": "{origin}/api/{id}", "urlPath": "$.file"}}, "b.top": {"jsonApi": {"urlPath": "$["}}}'
+    );
+    expect(out).toEqual({ 'a.top': { jsonApi: { url: '{origin}/api/{id}', urlPath: '$.file' } }, 'b.top': {} });
+  });
+  it('keeps a valid proxy and drops one with an unsupported scheme', () => {
+    const out = parseProfiles(
+      '{"a.top": {"strategy": "http-token", "proxy": "socks5://u:p@proxy.example:1080"}, "b.top": {"proxy": "ftp://proxy.example"}}'
+    );
+    expect(out).toEqual({ 'a.top': { strategy: 'http-token', proxy: 'socks5://u:p@proxy.example:1080' }, 'b.top': {} });
+  });
+  it("holds options to the profile strategy's rules, as the route does", () => {
+    const out = parseProfiles('{"a.top": {"proxy": "socks5://u:p@proxy.example:1080"}, "b.top": {"strategy": "auto", "proxy": "socks5://u:p@proxy.example:1080"}}');
+    expect(out).toEqual({ 'a.top': {}, 'b.top': { strategy: 'auto' } });
+  });
+  it.each([
+    ['match', '"("'],
+    ['exclude', '["ads", "["]'],
+    ['formats', '["hls", "flv"]'],
+    ['captureWindowMs', '60000'],
+    ['initScriptName', '"not-in-the-library"'],
+  ])('drops a %s value the route would reject', (field, value) => {
+    expect(parseProfiles(`{"a.top": {"referer": "https://p.example/", "${field}": ${value}}}`)).toEqual({
+      'a.top': { referer: 'https://p.example/' },
+    });
+  });
+  it('skips entries that are not objects', () => {
+    expect(parseProfiles('{"a.top": "http-token", "b.top": {}}')).toEqual({ 'b.top': {} });
+  });
+  it('rejects a document that is not a map', () => {
+    expect(() => parseProfiles('- a.top\n- b.top\n')).toThrow('map hostnames');
+  });
+});
+
+describe('loadProfiles', () => {
+  it('loads a registry from disk', () => {
+    const path = writeTmp('profiles.yaml', 'embed.example.top:\n  strategy: http-token\n');
+    expect(loadProfiles(path).match('https://embed.example.top/')).toEqual({ strategy: 'http-token' });
+  });
+  it('returns an empty registry when unset', () => {
+    expect(loadProfiles(undefined).size).toBe(0);
+  });
+  it('degrades to an empty registry instead of throwing on a missing file', () => {
+    expect(loadProfiles('/nonexistent/profiles.yaml').size).toBe(0);
+  });
+  it('degrades to an empty registry on malformed YAML', () => {
+    expect(loadProfiles(writeTmp('bad.yaml', 'a: [unclosed')).size).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { readFileSync } from 'node:fs';
+import consola from 'consola';
+import { parse } from 'yaml';
+import type { StreamFormat } from './extractor.js';
+import type { BrowserAction } from './browserActions.js';
+import type { Strategy } from './strategies/index.js';
+import type { JsonApiOptions } from './strategies/jsonApi.js';
+import { optionValidator } from './strategies/registry.js';
+// Registers the built-in strategies, whose option validators check profile fields
+import './strategies/index.js';
+
+/**
+ * Per-host extraction defaults. Every field is optional: `POST /extract`
+ * fills in whatever the caller omitted from the profile matching the embed
+ * host, so host-specific knowledge lives next to the worker instead of being
+ * repeated in every client.
+ */
+export interface ExtractionProfile {
+  strategy?: Strategy;
+  pattern?: string;
+  jsonApi?: JsonApiOptions;
+  referer?: string;
+  timeout?: number;
+  playSelectors?: string[];
+  formats?: StreamFormat[];
+  match?: string;
+  exclude?: string[];
+  captureWindowMs?: number;
+  actions?: BrowserAction[];
+  initScriptName?: string;
+  playerHooks?: boolean;
+  fullHeaders?: boolean;
+  captureBody?: boolean;
+  proxy?: string;
+}
+
+// Fields a profile may set besides strategy options (only the built-in ones:
+// profiles are parsed before STRATEGIES_DIR is loaded)
+const PROFILE_FIELDS: Record<string, (v: unknown) => boolean> = {
+  strategy: (v) => typeof v === 'string',
+  timeout: (v) => typeof v === 'number' && Number.isFinite(v) && v > 0,
+};
+const PROFILE_OPTIONS = new Set([
+  'pattern', 'jsonApi', 'referer', 'playSelectors', 'formats', 'match', 'exclude', 'captureWindowMs',
+  'actions', 'initScriptName', 'playerHooks', 'fullHeaders', 'captureBody', 'proxy',
+]);
+
+/**
+ * Why `value` can't be used for `field` under `strategy`, null if it can, or
+ * undefined for a field profiles don't carry. Strategy options go through the
+ * validator the route applies to the request, so a value that would turn every
+ * request for the host into a 400 is dropped at load time instead.
+ */
+function profileFieldError(strategy: string, field: string, value: unknown): string | null | undefined {
+  const check = PROFILE_FIELDS[field];
+  if (check) return check(value) ? null : `${field} has the wrong type`;
+  if (!PROFILE_OPTIONS.has(field)) return undefined;
+  return optionValidator(strategy, field)?.validate(value);
+}
+
+// `*` matches any run of characters, so `*.example.com` covers every
+// subdomain and `embed*.top` covers numbered mirrors.
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export class ProfileRegistry {
+  private exact = new Map<string, ExtractionProfile>();
+  private globs: Array<{ re: RegExp; profile: ExtractionProfile }> = [];
+
+  constructor(entries: Record<string, ExtractionProfile> = {}) {
+    for (const [key, profile] of Object.entries(entries)) {
+      const host = key.toLowerCase();
+      if (host.includes('*')) {
+        this.globs.push({ re: globToRegExp(host), profile });
+      } else {
+        this.exact.set(host, profile);
+      }
+    }
+  }
+
+  /**
+   * Profile for an embed URL: an exact hostname entry wins, otherwise the
+   * first glob (in file order) that matches. Null if nothing matches.
+   */
+  match(embedUrl: string): ExtractionProfile | null {
+    let host: string;
+    try {
+      host = new URL(embedUrl).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+    const exact = this.exact.get(host);
+    if (exact) return exact;
+    return this.globs.find((g) => g.re.test(host))?.profile ?? null;
+  }
+
+  get size(): number {
+    return this.exact.size + this.globs.length;
+  }
+}
+
+/**
+ * Parse a profiles document (YAML or JSON — JSON is valid YAML) mapping
+ * hostname/glob → profile. Malformed entries and unknown fields are dropped
+ * with a warning so one typo can't take every other host's profile down.
+ */
+export function parseProfiles(text: string): Record<string, ExtractionProfile> {
+  const doc: unknown = parse(text);
+  if (doc === null || doc === undefined) return {};
+  if (typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error('profiles file must map hostnames to profiles');
+  }
+  const out: Record<string, ExtractionProfile> = {};
+  for (const [host, raw] of Object.entries(doc)) {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      consola.warn(`[Profiles] Skipping ${host}: profile must be an object`);
+      continue;
+    }
+    const profile: Record<string, unknown> = {};
+    // Held to the rules of the strategy the profile picks, as the route does
+    const strategy = typeof raw.strategy === 'string' ? raw.strategy : 'browser';
+    for (const [field, value] of Object.entries(raw)) {
+      const error = profileFieldError(strategy, field, value);
+      if (error === undefined) {
+        consola.warn(`[Profiles] ${host}: ignoring unknown field "${field}"`);
+      } else if (error) {
+        consola.warn(`[Profiles] ${host}: ignoring invalid ${field} ${JSON.stringify(value)} (${error})`);
+      } else {
+        profile[field] = value;
+      }
+    }
+    out[host] = profile as ExtractionProfile;
+  }
+  return out;
+}
+
+/**
+ * Load the registry from `path`. A missing or unreadable file must not stop
+ * the worker from booting, so it degrades to an empty registry (callers then
+ * behave exactly as before profiles existed).
+ */
+export function loadProfiles(path: string | undefined): ProfileRegistry {
+  if (!path) return new ProfileRegistry();
+  try {
+    const registry = new ProfileRegistry(parseProfiles(readFileSync(path, 'utf8')));
+    consola.info(`[Profiles] Loaded ${registry.size} profile(s) from ${path}`);
+    return registry;
+  } catch (err) {
+    consola.error(`[Profiles] Could not load ${path}, continuing without profiles:`, err);
+    return new ProfileRegistry();
+  }
+}
+
+const registry = loadProfiles(process.env.EXTRACTION_PROFILES);
+
+export function findProfile(embedUrl: string): ExtractionProfile | null {
+  return registry.match(embedUrl);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Response } from 'patchright';
+import { findUrlsInBody, isSniffableResponse } from './responseSniffer.js';
+
+function mockResponse(opts: { resourceType?: string; status?: number; headers?: Record<string, string> }) {
+  return {
+    request: () => ({ resourceType: () => opts.resourceType ?? 'xhr' }),
+    status: () => opts.status ?? 200,
+    headers: () => opts.headers ?? { 'content-type': 'application/json' },
+  } as unknown as Response;
+}
+
+describe('findUrlsInBody', () => {
+  it('finds literal and JSON-escaped URLs', () => {
+    const body = JSON.stringify({ hls: 'https://cdn.example.top/live/master.m3u8?t=1&e=2' }) +
+      '{"file":"https:\\/\\/edge.example.top\\/hls\\/index.m3u8"}' +
+      '{"src":"https:\\u002F\\u002Fedge.example.top\\u002Fa.mpd?x\\u003d1\\u0026y\\u003d2"}';
+    expect(findUrlsInBody(body)).toEqual([
+      'https://cdn.example.top/live/master.m3u8?t=1&e=2',
+      'https://edge.example.top/hls/index.m3u8',
+      'https://edge.example.top/a.mpd?x=1&y=2',
+    ]);
+  });
+
+  it('dedupes repeated URLs', () => {
+    expect(findUrlsInBody('"https://a.top/x.m3u8" "https://a.top/x.m3u8"')).toEqual(['https://a.top/x.m3u8']);
+  });
+});
+
+describe('isSniffableResponse', () => {
+  it('accepts a small JSON xhr/fetch response', () => {
+    expect(isSniffableResponse(mockResponse({}))).toBe(true);
+    expect(isSniffableResponse(mockResponse({ resourceType: 'fetch', headers: {} }))).toBe(true);
+  });
+
+  it.each([
+    ['a script', { resourceType: 'script' }],
+    ['an error status', { status: 404 }],
+    ['a media segment', { headers: { 'content-type': 'video/mp2t' } }],
+    ['a body over the cap', { headers: { 'content-type': 'application/json', 'content-length': '5000' } }],
+  ])('skips %s', (_name, opts) => {
+    expect(isSniffableResponse(mockResponse(opts), 1000)).toBe(false);
+  });
+
+  it('is disabled by a zero cap', () => {
+    expect(isSniffableResponse(mockResponse({}), 0)).toBe(false);
+  });
+});
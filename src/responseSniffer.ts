@@ -0,0 +1,47 @@
+import type { Response } from 'patchright';
+
+// Player configs are a few KB; anything this large is media or a bundle. 0 disables sniffing.
+const parsedMax = parseInt(process.env.SNIFF_MAX_BODY_BYTES || '262144', 10);
+export const SNIFF_MAX_BODY_BYTES = Number.isFinite(parsedMax) && parsedMax >= 0 ? parsedMax : 262144;
+
+const TEXT_CONTENT_TYPE = /json|text|javascript|xml/i;
+const BODY_URL = /https?:\/\/[^\s"'<>\\]+/g;
+// A config lists a handful of sources; don't walk a whole catalogue
+const MAX_BODY_URLS = 50;
+
+/**
+ * Whether a response is worth reading: a successful xhr/fetch with a textual
+ * (or unlabelled) body that doesn't declare itself over the cap. Segments
+ * hls.js loads over XHR are skipped by their media content type.
+ */
+export function isSniffableResponse(response: Response, maxBytes = SNIFF_MAX_BODY_BYTES): boolean {
+  if (maxBytes <= 0) return false;
+  const resourceType = response.request().resourceType();
+  if (resourceType !== 'xhr' && resourceType !== 'fetch') return false;
+  const status = response.status();
+  if (status < 200 || status >= 300) return false;
+  const headers = response.headers();
+  const contentType = headers['content-type'];
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) return false;
+  const length = Number(headers['content-length']);
+  return !(length > maxBytes);
+}
+
+/**
+ * Absolute URLs in a response body, in order and deduped. JSON escapes
+ * (`https:\/\/cdn\/a.m3u8`, `\u002F`, `\u0026`) are undone first so a URL
+ * serialized by a backend matches like a literal one.
+ */
+export function findUrlsInBody(body: string): string[] {
+  const text = body
+    .replace(/\\u002f/gi, '/')
+    .replace(/\\u0026/gi, '&')
+    .replace(/\\u003d/gi, '=')
+    .replace(/\\\//g, '/');
+  const urls = new Set<string>();
+  for (const m of text.matchAll(BODY_URL)) {
+    urls.add(m[0]);
+    if (urls.size >= MAX_BODY_URLS) break;
+  }
+  return [...urls];
+}
@@ -3,7 +3,12 @@ import consola from 'consola';
 import { authMiddleware } from '../middleware/auth.js';
 import { dispatchExtraction, type Strategy } from '../strategies/index.js';
 import { validateEmbedUrl } from '../ssrf.js';
+import { findProfile } from '../profiles.js';
+import type { JsonApiOptions } from '../strategies/jsonApi.js';
+import { getStrategy, strategyOptions, validateStrategyRequest } from '../strategies/registry.js';
 import { QueueTaskTimeoutError } from '../browserPool.js';
+import type { StreamFormat } from '../extractor.js';
+import type { BrowserAction } from '../browserActions.js';
 import { extractionsTotal, extractionDuration, ERROR_TYPES } from '../metrics.js';
 
 const router = Router();
@@ -14,12 +19,27 @@ interface ExtractRequest {
   priority?: 'high' | 'normal';
   strategy?: Strategy;
   pattern?: string;
+  jsonApi?: JsonApiOptions;
   // Navigation referer: some embeds only arm the player when loaded with the parent page's referer
   referer?: string;
+  playSelectors?: string[];
+  formats?: StreamFormat[];
+  // Browser stream URL detection: include regex and veto regexes
+  match?: string;
+  exclude?: string[];
+  captureWindowMs?: number;
+  actions?: BrowserAction[];
+  initScriptName?: string;
+  initScript?: string;
+  playerHooks?: boolean;
+  fullHeaders?: boolean;
+  captureBody?: boolean;
+  // Outbound proxy URL (http/https/socks5, credentials inline); never echoed back
+  proxy?: string;
+  parsePlaylist?: boolean;
+  verify?: boolean;
 }
 
-const STRATEGIES: readonly Strategy[] = ['browser', 'http-token'];
-
 // Priority levels: higher number = executes first
 const PRIORITY_LEVELS = {
   normal: 0,
@@ -39,14 +59,8 @@ function getShortId(embedUrl: string): string {
 }
 
 router.post('/extract', authMiddleware, async (req, res) => {
-  const {
-    embedUrl,
-    timeout = 30000,
-    priority: priorityParam,
-    strategy = 'browser',
-    pattern,
-    referer,
-  } = req.body as ExtractRequest;
+  const body = req.body as ExtractRequest;
+  const { embedUrl, priority: priorityParam } = body;
 
   if (!embedUrl) {
     res.status(400).json({ error: 'embedUrl is required' });
@@ -59,8 +73,22 @@ router.post('/extract', authMiddleware, async (req, res) => {
     return;
   }
 
-  if (!STRATEGIES.includes(strategy)) {
-    res.status(400).json({ error: `Unknown strategy: ${strategy}` });
+  // Fields the caller omitted fall back to the host's profile, then to defaults
+  const profile = findProfile(embedUrl);
+  const timeout = body.timeout ?? profile?.timeout ?? 30000;
+  const strategy = body.strategy ?? profile?.strategy ?? 'browser';
+  // Every option a registered strategy declares, so `auto` and profiles can
+  // carry fields for several strategies at once
+  const profileFields: Record<string, unknown> = { ...profile };
+  const options: Record<string, unknown> = {};
+  for (const field of strategyOptions().keys()) {
+    const value = req.body[field] ?? profileFields[field];
+    if (value !== undefined) options[field] = value;
+  }
+
+  const strategyError = validateStrategyRequest(strategy, options);
+  if (strategyError) {
+    res.status(400).json({ error: strategyError });
     return;
   }
 
@@ -76,8 +104,9 @@ router.post('/extract', authMiddleware, async (req, res) => {
       timeout,
       priority,
       strategy,
-      pattern,
-      referer,
+      ...options,
+      parsePlaylist: body.parsePlaylist === true,
+      verify: body.verify === true,
       queueEnqueueTime,
     });
     const duration = Date.now() - queueEnqueueTime;
@@ -85,7 +114,8 @@ router.post('/extract', authMiddleware, async (req, res) => {
 
     if (!extracted) {
       // The browser path fails by timing out; HTTP strategies fail by not matching.
-      const missType = strategy === 'browser' ? ERROR_TYPES.timeout : ERROR_TYPES.pattern_miss;
+      // `auto` only gives up after its browser fallback, so it fails like browser.
+      const missType = getStrategy(strategy)?.queue === 'browser' ? ERROR_TYPES.timeout : ERROR_TYPES.pattern_miss;
       consola.warn(`[Extract] FAILED ${shortId} (${duration}ms) - ${missType}`);
       extractionsTotal.inc({ status: 'failure', error_type: missType, strategy });
       extractionDuration.observe({ status: 'failure' }, durationSeconds);
@@ -96,8 +126,10 @@ router.post('/extract', authMiddleware, async (req, res) => {
       return;
     }
 
-    consola.info(`[Extract] OK ${shortId} (${duration}ms)`);
-    extractionsTotal.inc({ status: 'success', error_type: ERROR_TYPES.none, strategy });
+    // `auto` reports the step that produced the URL, not the cascade itself
+    const usedStrategy = extracted.strategy ?? strategy;
+    consola.info(`[Extract] OK ${shortId} (${duration}ms, strategy: ${usedStrategy})`);
+    extractionsTotal.inc({ status: 'success', error_type: ERROR_TYPES.none, strategy: usedStrategy });
     extractionDuration.observe({ status: 'success' }, durationSeconds);
 
     res.json({
@@ -106,6 +138,20 @@ router.post('/extract', authMiddleware, async (req, res) => {
       m3u8Url: extracted.url,
       headers: extracted.headers,
       cookies: extracted.cookies,
+      cookieJar: extracted.cookieJar,
+      strategy: usedStrategy,
+      format: extracted.format,
+      detectionMethod: extracted.detectionMethod,
+      expiresAt: extracted.expiresAt,
+      ttlSeconds: extracted.ttlSeconds,
+      candidates: extracted.candidates,
+      playlistBody: extracted.playlistBody,
+      variants: extracted.playlist?.variants,
+      media: extracted.playlist?.media,
+      keys: extracted.playlist?.keys,
+      initSegments: extracted.playlist?.initSegments,
+      verified: extracted.verified,
+      verifyError: extracted.verifyError,
     });
   } catch (error: unknown) {
     const duration = Date.now() - queueEnqueueTime;
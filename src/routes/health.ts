@@ -5,7 +5,7 @@ const router = Router();
 
 router.get('/health', (_req, res) => {
   const mem = process.memoryUsage();
-  const browserStatus = browserPool.getStatus();
+  const { shards, ...browserStatus } = browserPool.getStatus();
   const isHealthy = !browserStatus.isCircuitOpen;
 
   res.status(isHealthy ? 200 : 503).json({
@@ -22,6 +22,7 @@ router.get('/health', (_req, res) => {
     },
     browser: {
       circuitBreaker: browserStatus,
+      shards,
     },
   });
 });
@@ -12,8 +12,13 @@ export function validateEmbedUrl(url: string): string | null {
     return `Blocked URL scheme: ${parsed.protocol}`;
   }
 
+  return validateHost(parsed.hostname);
+}
+
+// Host rules shared by embed URLs and anything else the worker connects to (e.g. a proxy)
+export function validateHost(host: string): string | null {
   // Strip brackets from IPv6 hostnames (URL parser wraps them in [])
-  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const hostname = host.replace(/^\[|\]$/g, '');
 
   // Block localhost variants
   if (hostname === 'localhost' || hostname === 'localhost.') {
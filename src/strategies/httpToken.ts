@@ -1,15 +1,23 @@
 import consola from 'consola';
 import type { ExtractedStream } from '../extractor.js';
+import { BROWSER_USER_AGENT } from '../browserPool.js';
 import { safeFetch } from './safeFetch.js';
 
-const UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+// The HTTP strategies present the same UA as Chrome, so a stream that is bound to it plays either way
+export const UA = BROWSER_USER_AGENT;
 const DEFAULT_PATTERN = /https?:\/\/[^"'\s]+\.m3u8[^"'\s]*/;
 
-export async function extractHttpToken(embedUrl: string, timeout: number, pattern?: string): Promise<ExtractedStream | null> {
-  const res = await safeFetch(embedUrl, { timeout, headers: { 'User-Agent': UA } });
-  if (!res) return null;
-  if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
-  const html = await res.text();
+/** Referer, Origin and User-Agent a player sends for a stream embedded on `origin`. */
+export function defaultPlaybackHeaders(origin: string): Record<string, string> {
+  return { Referer: `${origin}/`, Origin: origin, 'User-Agent': UA };
+}
+
+/**
+ * Run the http-token matcher over a document: the caller's pattern (capture
+ * group 1 if it has one) or the first `.m3u8` URL. Shared by every HTTP
+ * strategy that ends in "find the URL in this text".
+ */
+export function findStreamUrl(text: string, pattern?: string): string | null {
   // Operators tune this pattern live, so a malformed one must degrade to a
   // pattern_miss rather than crash the request. ReDoS on a hand-tuned pattern
   // is an accepted operator-controlled risk.
@@ -22,9 +30,23 @@ export async function extractHttpToken(embedUrl: string, timeout: number, patter
       return null;
     }
   }
-  const m = html.match(re);
-  if (!m) { consola.debug('[http-token] no token match'); return null; }
-  const url = m[1] ?? m[0]; // capture group 1 if the pattern has one
+  const m = text.match(re);
+  if (!m) return null;
+  return m[1] ?? m[0]; // capture group 1 if the pattern has one
+}
+
+export async function extractHttpToken(
+  embedUrl: string,
+  timeout: number,
+  pattern?: string,
+  proxy?: string
+): Promise<ExtractedStream | null> {
+  const res = await safeFetch(embedUrl, { timeout, headers: { 'User-Agent': UA }, proxy });
+  if (!res) return null;
+  if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
+  const html = await res.text();
+  const url = findStreamUrl(html, pattern);
+  if (!url) { consola.debug('[http-token] no token match'); return null; }
   const origin = new URL(embedUrl).origin;
-  return { url, headers: { Referer: `${origin}/`, Origin: origin, 'User-Agent': UA } };
+  return { url, headers: defaultPlaybackHeaders(origin) };
 }
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { extractIframeChain, findIframeTargets } from './iframeChain.js';
+
+// Serve fixed pages by URL; anything else is a 404.
+function servePages(pages: Record<string, string>) {
+  vi.mocked(fetch).mockImplementation(async (url: any) =>
+    url in pages ? new Response(pages[url], { status: 200 }) : new Response('nope', { status: 404 })
+  );
+}
+
+function requestedReferers(): Record<string, string | undefined> {
+  return Object.fromEntries(
+    vi.mocked(fetch).mock.calls.map(([url, init]: any[]) => [url, init?.headers?.Referer])
+  );
+}
+
+describe('findIframeTargets', () => {
+  it('resolves src and data-src targets in document order', () => {
+    const html = `<iframe src="/player/1"></iframe>
+      <IFRAME class="lazy" src="about:blank" data-src='https://p.example.top/e?a=1&amp;b=2'></IFRAME>
+      <iframe src=relative/x.html></iframe>
+      <iframe src="javascript:void(0)"></iframe>
+      <iframe src="/player/1"></iframe>`;
+    expect(findIframeTargets(html, 'https://outer.example.top/watch/x')).toEqual([
+      'https://outer.example.top/player/1',
+      'https://p.example.top/e?a=1&b=2',
+      'https://outer.example.top/watch/relative/x.html',
+    ]);
+  });
+  it('returns nothing for a page without iframes', () => {
+    expect(findIframeTargets('<div data-src="/x"></div>', 'https://a.top/')).toEqual([]);
+  });
+});
+
+describe('extractIframeChain', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('follows nested iframes, sending each parent as Referer', async () => {
+    servePages({
+      'https://outer.example.top/watch': '<iframe src="https://wrap.example.top/w/1"></iframe>',
+      'https://wrap.example.top/w/1': '<iframe data-src="https://player.example.top/p/1"></iframe>',
+      'https://player.example.top/p/1': '<script>file:"https://cdn.example.top/hls/tok/index.m3u8"</script>',
+    });
+    const r = await extractIframeChain('https://outer.example.top/watch', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/hls/tok/index.m3u8');
+    expect(r?.headers?.Referer).toBe('https://player.example.top/');
+    expect(r?.headers?.Origin).toBe('https://player.example.top');
+    expect(requestedReferers()).toEqual({
+      'https://outer.example.top/watch': undefined,
+      'https://wrap.example.top/w/1': 'https://outer.example.top/watch',
+      'https://player.example.top/p/1': 'https://wrap.example.top/w/1',
+    });
+  });
+
+  it('skips a dead-end ad iframe and tries the next one', async () => {
+    servePages({
+      'https://outer.example.top/watch': '<iframe src="https://ads.example.net/b"></iframe><iframe src="https://player.example.top/p"></iframe>',
+      'https://ads.example.net/b': '<html>ad</html>',
+      'https://player.example.top/p': 'src: "https://cdn.example.top/s.m3u8"',
+    });
+    const r = await extractIframeChain('https://outer.example.top/watch', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/s.m3u8');
+  });
+
+  it('moves on to the next iframe when a child fetch fails', async () => {
+    const pages: Record<string, string> = {
+      'https://outer.example.top/watch': '<iframe src="https://dead.example.net/b"></iframe><iframe src="https://player.example.top/p"></iframe>',
+      'https://player.example.top/p': 'src: "https://cdn.example.top/s.m3u8"',
+    };
+    vi.mocked(fetch).mockImplementation(async (url: any) => {
+      if (url === 'https://dead.example.net/b') throw new TypeError('fetch failed');
+      return new Response(pages[url], { status: 200 });
+    });
+    const r = await extractIframeChain('https://outer.example.top/watch', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/s.m3u8');
+  });
+
+  it('applies the caller pattern to the final document', async () => {
+    servePages({
+      'https://outer.example.top/watch': '<iframe src="https://player.example.top/p"></iframe>',
+      'https://player.example.top/p': 'data-stream="https://cdn.example.top/live/abc"',
+    });
+    const r = await extractIframeChain('https://outer.example.top/watch', 5000, 'data-stream="([^"]+)"');
+    expect(r?.url).toBe('https://cdn.example.top/live/abc');
+  });
+
+  it('falls back to the outer page when no iframe yields a match', async () => {
+    servePages({
+      'https://outer.example.top/watch': '<iframe src="https://x.example.top/"></iframe>https://cdn.example.top/outer.m3u8',
+      'https://x.example.top/': 'nothing',
+    });
+    const r = await extractIframeChain('https://outer.example.top/watch', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/outer.m3u8');
+    expect(r?.headers?.Origin).toBe('https://outer.example.top');
+  });
+
+  it('refuses iframe hops to internal addresses', async () => {
+    servePages({
+      'https://outer.example.top/watch': '<iframe src="http://169.254.169.254/latest/meta-data/"></iframe>',
+    });
+    expect(await extractIframeChain('https://outer.example.top/watch', 5000)).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops descending at the depth limit', async () => {
+    const pages: Record<string, string> = {};
+    for (let i = 0; i < 6; i++) {
+      pages[`https://p${i}.example.top/`] = `<iframe src="https://p${i + 1}.example.top/"></iframe>`;
+    }
+    pages['https://p6.example.top/'] = 'https://cdn.example.top/deep.m3u8';
+    servePages(pages);
+    expect(await extractIframeChain('https://p0.example.top/', 5000)).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(4); // root + 3 hops
+  });
+
+  it('returns null and cancels the body when the embed is not 200', async () => {
+    const res = new Response('error page', { status: 403 });
+    const cancel = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(res, 'body', { get: () => ({ cancel }) });
+    vi.mocked(fetch).mockResolvedValue(res);
+    expect(await extractIframeChain('https://outer.example.top/watch', 5000)).toBeNull();
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+});
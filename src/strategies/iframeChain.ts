@@ -0,0 +1,91 @@
+import consola from 'consola';
+import type { ExtractedStream } from '../extractor.js';
+import { safeFetch } from './safeFetch.js';
+import { defaultPlaybackHeaders, findStreamUrl, UA } from './httpToken.js';
+
+// Outer page → player wrapper → player is the deepest chain seen in practice
+const MAX_DEPTH = 3;
+// Caps fan-out when pages carry several (ad) iframes
+const MAX_FETCHES = 8;
+
+const IFRAME_TAG = /<iframe\b[^>]*>/gi;
+const SRC_ATTR = /\s(data-src|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+
+// Targets in document order; `data-src` (lazy-loaded players) wins over a
+// placeholder `src` on the same tag.
+export function findIframeTargets(html: string, baseUrl: string): string[] {
+  const targets: string[] = [];
+  for (const tag of html.match(IFRAME_TAG) ?? []) {
+    const attrs: Record<string, string> = {};
+    for (const m of tag.matchAll(SRC_ATTR)) {
+      attrs[m[1].toLowerCase()] = (m[2] ?? m[3] ?? m[4]).trim();
+    }
+    const raw = attrs['data-src'] || attrs.src;
+    if (!raw || /^(about|javascript|data):/i.test(raw)) continue;
+    let resolved: string;
+    try {
+      resolved = new URL(raw.replace(/&amp;/g, '&'), baseUrl).toString();
+    } catch {
+      continue;
+    }
+    if (!targets.includes(resolved)) targets.push(resolved);
+  }
+  return targets;
+}
+
+interface Hop {
+  url: string;
+  html: string;
+}
+
+export async function extractIframeChain(
+  embedUrl: string,
+  timeout: number,
+  pattern?: string,
+  proxy?: string
+): Promise<ExtractedStream | null> {
+  // One deadline for the whole chain, like safeFetch's redirect budget
+  const deadline = Date.now() + timeout;
+  let fetches = 0;
+
+  const fetchHop = async (url: string, referer?: string): Promise<Hop | null> => {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0 || fetches >= MAX_FETCHES) return null;
+    fetches++;
+    const headers: Record<string, string> = { 'User-Agent': UA };
+    if (referer) headers.Referer = referer;
+    // safeFetch re-runs the SSRF check, so an iframe pointing inward is refused
+    const res = await safeFetch(url, { timeout: remaining, headers, proxy });
+    if (!res) return null;
+    if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
+    return { url, html: await res.text() };
+  };
+
+  // Depth-first: the innermost player page is the "final document". If no
+  // child yields a stream, fall back to matching the page itself.
+  const walk = async (hop: Hop, depth: number): Promise<{ url: string; pageUrl: string } | null> => {
+    if (depth < MAX_DEPTH) {
+      for (const target of findIframeTargets(hop.html, hop.url)) {
+        consola.debug(`[iframe-chain] depth ${depth + 1}: ${target}`);
+        // A dead ad iframe (DNS, TLS, reset) is a dead end, not a failed extraction
+        const child = await fetchHop(target, hop.url).catch((err: unknown) => {
+          consola.debug(`[iframe-chain] ${target} failed: ${err instanceof Error ? err.message : String(err)}`);
+          return null;
+        });
+        if (!child) continue;
+        const found = await walk(child, depth + 1);
+        if (found) return found;
+      }
+    }
+    const url = findStreamUrl(hop.html, pattern);
+    return url ? { url, pageUrl: hop.url } : null;
+  };
+
+  const root = await fetchHop(embedUrl);
+  if (!root) return null;
+  const found = await walk(root, 0);
+  if (!found) { consola.debug(`[iframe-chain] no match after ${fetches} fetch(es)`); return null; }
+  // The page that carried the URL is the one the CDN expects as Referer
+  const origin = new URL(found.pageUrl).origin;
+  return { url: found.url, headers: defaultPlaybackHeaders(origin) };
+}
@@ -1,23 +1,257 @@
-import { extractM3u8, type ExtractedStream } from '../extractor.js';
+import consola from 'consola';
+import { extractM3u8, STREAM_FORMATS, compileStreamMatcher, type ExtractedStream, type StreamFormat } from '../extractor.js';
+import { fetchPlaylistInfo, verifyPlayback, type PlaylistInfo } from '../playlist.js';
+import { detectExpiry, type StreamExpiry } from '../expiry.js';
+import { extractSignedUrl } from './signedUrl.js';
 import { extractHttpToken } from './httpToken.js';
+import { extractIframeChain } from './iframeChain.js';
+import { extractPackedJs } from './packedJs.js';
+import { extractScriptEval } from './scriptEval.js';
+import { extractJsonApi, validateJsonApiOptions, type JsonApiOptions } from './jsonApi.js';
+import { validateBrowserActions, type BrowserAction } from '../browserActions.js';
+import { resolveInitScripts, validateInitScriptName, validateInlineInitScript } from '../initScripts.js';
+import { browserProxyError, validateProxyUrl } from '../proxy.js';
 import { lightQueue } from './lightQueue.js';
+import { getStrategy, registerStrategy, type StrategyDefinition, type StrategyOption } from './registry.js';
 
-export type Strategy = 'browser' | 'http-token';
+// Any registered strategy name: the built-ins below plus modules loaded from STRATEGIES_DIR
+export type Strategy = string;
 
 export interface DispatchOpts {
   timeout: number;
   priority: number;
   strategy: Strategy;
+  // Stream URL regex for the HTTP strategies except signed-url
   pattern?: string;
+  // Endpoint, request and response paths for json-api
+  jsonApi?: JsonApiOptions;
   // Navigation referer for the browser strategy (ignored by HTTP strategies)
   referer?: string;
+  // Play-button selectors for the browser strategy (ignored by HTTP strategies)
+  playSelectors?: string[];
+  // Stream formats the browser strategy captures (HTTP strategies are HLS-only)
+  formats?: StreamFormat[];
+  // Browser only: include regex / exclude regexes for stream URLs
+  match?: string;
+  exclude?: string[];
+  // Browser only: keep collecting candidates this long after the first hit
+  captureWindowMs?: number;
+  // Browser only: interaction steps run after navigation instead of the play-selector pass
+  actions?: BrowserAction[];
+  // Browser only: init script from the operator's library and/or inline source (operator-gated)
+  initScriptName?: string;
+  initScript?: string;
+  // Browser only: set false to skip the in-page player hooks
+  playerHooks?: boolean;
+  // Browser only: return the headers Chrome sent for the stream request
+  fullHeaders?: boolean;
+  // Browser only: let Chrome fetch the HLS playlist and return its body
+  captureBody?: boolean;
+  // Outbound proxy URL (http, https or socks5) for the page, its requests and playlist fetches
+  proxy?: string;
+  // Fetch the captured playlist and report its variants (spends the token)
+  parsePlaylist?: boolean;
+  // Fetch the playlist and one variant to confirm it plays (spends the token)
+  verify?: boolean;
   queueEnqueueTime?: number;
+  // Options declared by strategies loaded from STRATEGIES_DIR
+  [option: string]: unknown;
 }
 
-export async function dispatchExtraction(embedUrl: string, opts: DispatchOpts): Promise<ExtractedStream | null> {
-  if (opts.strategy === 'browser') {
-    return extractM3u8(embedUrl, opts.timeout, opts.priority, opts.queueEnqueueTime, opts.referer);
+export interface DispatchedStream extends ExtractedStream, Partial<StreamExpiry> {
+  // Set by `auto` to record which step of the cascade produced the URL
+  strategy?: Strategy;
+  playlist?: PlaylistInfo;
+  // Set when the request asked to verify playback
+  verified?: boolean;
+  verifyError?: string;
+}
+
+// Upper bound on the post-first-hit capture window; it only needs to outlast an ad pre-roll's setup
+export const MAX_CAPTURE_WINDOW_MS = 10000;
+// auto's http-token step is one page fetch; a slow host shouldn't eat Chrome's share of the timeout
+const AUTO_HTTP_BUDGET_MS = 5000;
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === 'string');
+
+function matcherError(match?: string, exclude?: string[]): string | null {
+  // Unlike http-token's pattern (which degrades to a pattern_miss), a bad
+  // browser matcher would burn a Chrome slot for nothing, so reject it upfront
+  try {
+    compileStreamMatcher(match, exclude);
+    return null;
+  } catch (err) {
+    return `Invalid match/exclude pattern: ${err instanceof Error ? err.message : String(err)}`;
   }
-  const run = () => extractHttpToken(embedUrl, opts.timeout, opts.pattern);
-  return (await lightQueue.add(run)) ?? null;
+}
+
+// Every built-in fetches the embed somehow, so every built-in can go through a proxy
+const PROXY_OPTION: Record<string, StrategyOption> = {
+  proxy: { validate: (v) => validateProxyUrl(v) },
+};
+
+// Strategies that may end in Chrome also need a proxy Chrome can use
+const BROWSER_PROXY_OPTION: Record<string, StrategyOption> = {
+  proxy: { validate: (v) => validateProxyUrl(v) ?? browserProxyError(v as string) },
+};
+
+const PATTERN_OPTION: Record<string, StrategyOption> = {
+  ...PROXY_OPTION,
+  pattern: { validate: (v) => (typeof v === 'string' ? null : 'pattern must be a string') },
+};
+
+const BROWSER_OPTIONS: Record<string, StrategyOption> = {
+  ...BROWSER_PROXY_OPTION,
+  referer: { validate: (v) => (typeof v === 'string' ? null : 'referer must be a string') },
+  playSelectors: { validate: (v) => (isStringArray(v) ? null : 'playSelectors must be an array of strings') },
+  formats: {
+    validate: (v) =>
+      Array.isArray(v) && v.every((f) => STREAM_FORMATS.includes(f))
+        ? null
+        : `formats must be a subset of: ${STREAM_FORMATS.join(', ')}`,
+  },
+  match: { validate: (v) => (typeof v === 'string' ? matcherError(v) : 'match must be a string') },
+  exclude: { validate: (v) => (isStringArray(v) ? matcherError(undefined, v) : 'exclude must be an array of strings') },
+  captureWindowMs: {
+    validate: (v) =>
+      typeof v === 'number' && v >= 0 && v <= MAX_CAPTURE_WINDOW_MS
+        ? null
+        : `captureWindowMs must be a number between 0 and ${MAX_CAPTURE_WINDOW_MS}`,
+  },
+  actions: { validate: (v) => validateBrowserActions(v) },
+  initScriptName: { validate: (v) => validateInitScriptName(v) },
+  initScript: { validate: (v) => validateInlineInitScript(v) },
+  playerHooks: { validate: (v) => (typeof v === 'boolean' ? null : 'playerHooks must be a boolean') },
+  fullHeaders: { validate: (v) => (typeof v === 'boolean' ? null : 'fullHeaders must be a boolean') },
+  captureBody: { validate: (v) => (typeof v === 'boolean' ? null : 'captureBody must be a boolean') },
+};
+
+const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  {
+    name: 'browser',
+    queue: 'browser',
+    options: BROWSER_OPTIONS,
+    run: (embedUrl, opts) =>
+      extractM3u8(embedUrl, opts.timeout, opts.priority, opts.queueEnqueueTime, {
+        referer: opts.referer,
+        playSelectors: opts.playSelectors,
+        formats: opts.formats,
+        match: opts.match,
+        exclude: opts.exclude,
+        captureWindowMs: opts.captureWindowMs,
+        actions: opts.actions,
+        initScripts: resolveInitScripts(opts.initScriptName, opts.initScript),
+        playerHooks: opts.playerHooks,
+        fullHeaders: opts.fullHeaders,
+        captureBody: opts.captureBody,
+        observeRequests: opts.parsePlaylist === true || opts.verify === true,
+        proxy: opts.proxy,
+      }),
+  },
+  // Pure HTTP strategies: all run on the light queue, never on a Chrome slot
+  {
+    name: 'signed-url',
+    queue: 'light',
+    options: PROXY_OPTION,
+    run: (embedUrl, opts) => extractSignedUrl(embedUrl, opts.timeout, opts.proxy),
+  },
+  {
+    name: 'http-token',
+    queue: 'light',
+    options: PATTERN_OPTION,
+    run: (embedUrl, opts) => extractHttpToken(embedUrl, opts.timeout, opts.pattern, opts.proxy),
+  },
+  {
+    name: 'iframe-chain',
+    queue: 'light',
+    options: PATTERN_OPTION,
+    run: (embedUrl, opts) => extractIframeChain(embedUrl, opts.timeout, opts.pattern, opts.proxy),
+  },
+  {
+    name: 'packed-js',
+    queue: 'light',
+    options: PATTERN_OPTION,
+    run: (embedUrl, opts) => extractPackedJs(embedUrl, opts.timeout, opts.pattern, opts.proxy),
+  },
+  {
+    name: 'script-eval',
+    queue: 'light',
+    options: PATTERN_OPTION,
+    run: (embedUrl, opts) => extractScriptEval(embedUrl, opts.timeout, opts.pattern, opts.proxy),
+  },
+  {
+    name: 'json-api',
+    queue: 'light',
+    options: { ...PROXY_OPTION, jsonApi: { validate: (v) => validateJsonApiOptions(v), required: true } },
+    run: (embedUrl, opts) => extractJsonApi(embedUrl, opts.timeout, opts.jsonApi, opts.proxy),
+  },
+  // Steps through the light queue, then Chrome; it fails like browser, its last step
+  {
+    name: 'auto',
+    queue: 'browser',
+    options: { ...PATTERN_OPTION, ...BROWSER_PROXY_OPTION },
+    run: (embedUrl, opts) => dispatchAuto(embedUrl, opts),
+  },
+];
+
+for (const def of BUILTIN_STRATEGIES) registerStrategy(def);
+
+export async function dispatchExtraction(embedUrl: string, opts: DispatchOpts): Promise<DispatchedStream | null> {
+  const found = await runStrategy(embedUrl, opts);
+  if (!found) return null;
+  // Read off the URL the same way whichever strategy (built-in or plugin) produced it
+  const expiry = detectExpiry(found.url);
+  const stream = expiry ? { ...found, ...expiry } : found;
+  if (opts.verify) {
+    // Verification already fetched the master; a second fetch could hit a spent single-use token
+    const check = await lightQueue.add(() => verifyPlayback(stream, opts.proxy));
+    if (!check) return { ...stream, verified: false, verifyError: 'verification did not run' };
+    const verified: DispatchedStream = { ...stream, verified: check.verified };
+    if (check.reason) verified.verifyError = check.reason;
+    if (opts.parsePlaylist && check.playlist) verified.playlist = check.playlist;
+    return verified;
+  }
+  // Only HLS has a master playlist to parse
+  if (!opts.parsePlaylist || (stream.format && stream.format !== 'hls')) return stream;
+  // Plain HTTP work: runs on the light queue after the Chrome slot (if any) is released
+  const playlist = (await lightQueue.add(() => fetchPlaylistInfo(stream, opts.proxy))) ?? null;
+  return playlist ? { ...stream, playlist } : stream;
+}
+
+async function runStrategy(embedUrl: string, opts: DispatchOpts): Promise<DispatchedStream | null> {
+  const strategy = getStrategy(opts.strategy);
+  if (!strategy) throw new Error(`Unknown strategy: ${opts.strategy}`);
+  // Browser-class strategies take their own Chrome slot through browserPool
+  if (strategy.queue === 'browser') return strategy.run(embedUrl, opts);
+  return (await lightQueue.add(() => strategy.run(embedUrl, opts))) ?? null;
+}
+
+// Cheap first: a wrong guess on the light queue costs one fetch, a wrong guess
+// on Chrome costs a full browser timeout. The http-token step gets a short
+// slice of the timeout, and a miss or a failed fetch (DNS, TLS, abort) falls
+// through to Chrome with whatever is left.
+async function dispatchAuto(embedUrl: string, opts: DispatchOpts): Promise<DispatchedStream | null> {
+  const started = Date.now();
+  try {
+    const cheap = await runStrategy(embedUrl, {
+      ...opts,
+      strategy: 'http-token',
+      timeout: Math.min(opts.timeout, AUTO_HTTP_BUDGET_MS),
+    });
+    if (cheap) return { ...cheap, strategy: 'http-token' };
+    consola.debug('[auto] http-token pattern_miss, falling back to browser');
+  } catch (error) {
+    consola.debug(`[auto] http-token failed (${error instanceof Error ? error.message : String(error)}), falling back to browser`);
+  }
+
+  const remaining = opts.timeout - (Date.now() - started);
+  if (remaining <= 0) return null;
+  // Restart the wait clock so queueWaitTime doesn't count the http-token attempt
+  const full = await runStrategy(embedUrl, {
+    ...opts,
+    strategy: 'browser',
+    timeout: remaining,
+    queueEnqueueTime: Date.now(),
+  });
+  return full ? { ...full, strategy: 'browser' } : null;
 }
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseJsonPath, evaluateJsonPath, validateJsonApiOptions, extractJsonApi } from './jsonApi.js';
+
+const DOC = {
+  success: true,
+  data: [
+    { label: '360p', file: '/v/360.m3u8' },
+    { label: '720p', file: 'https://cdn.example.top/v/720.m3u8' },
+  ],
+  'player-config': { token: 'abc', 'x.key': 'dotted' },
+};
+
+describe('evaluateJsonPath', () => {
+  it('follows keys, indices and quoted keys', () => {
+    expect(evaluateJsonPath(DOC, '$.data[1].file')).toEqual(['https://cdn.example.top/v/720.m3u8']);
+    expect(evaluateJsonPath(DOC, "$['player-config'].token")).toEqual(['abc']);
+    expect(evaluateJsonPath(DOC, '$["player-config"]["x.key"]')).toEqual(['dotted']);
+  });
+  it('counts negative indices from the end and treats the root as optional', () => {
+    expect(evaluateJsonPath(DOC, 'data[-1].label')).toEqual(['720p']);
+  });
+  it('expands wildcards in document order', () => {
+    expect(evaluateJsonPath(DOC, '$.data[*].label')).toEqual(['360p', '720p']);
+    expect(evaluateJsonPath(DOC, "$['player-config'].*")).toEqual(['abc', 'dotted']);
+  });
+  it('selects nothing for missing paths instead of throwing', () => {
+    expect(evaluateJsonPath(DOC, '$.data[5].file')).toEqual([]);
+    expect(evaluateJsonPath(DOC, '$.success.file')).toEqual([]);
+    expect(evaluateJsonPath(DOC, '$.constructor')).toEqual([]);
+  });
+});
+
+describe('parseJsonPath', () => {
+  it('rejects malformed expressions', () => {
+    expect(() => parseJsonPath('$.data[')).toThrow(SyntaxError);
+    expect(() => parseJsonPath('$..file')).toThrow('position 1');
+  });
+});
+
+describe('validateJsonApiOptions', () => {
+  it('accepts a complete block', () => {
+    expect(validateJsonApiOptions({
+      url: '{origin}/api/source/{id}', method: 'POST', body: { r: '' },
+      headers: { 'X-Requested-With': 'XMLHttpRequest' }, urlPath: '$.data[0].file', headerPaths: { Authorization: '$.token' },
+    })).toBeNull();
+  });
+  it.each([
+    [null, 'must be an object'],
+    [{}, 'urlPath'],
+    [{ urlPath: '$.a', method: 'PUT' }, 'method'],
+    [{ urlPath: '$.a', headers: { a: 1 } }, 'headers'],
+    [{ urlPath: '$.a', headerPaths: { Authorization: '$[' } }, 'Invalid JSON path'],
+  ])('rejects %j', (value, message) => {
+    expect(validateJsonApiOptions(value)).toContain(message);
+  });
+});
+
+describe('extractJsonApi', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('POSTs a templated body to a templated endpoint and reads the stream URL', async () => {
+    vi.mocked(fetch).mockResolvedValue(Response.json(DOC));
+    const r = await extractJsonApi('https://embed.example.top/v/abc123', 5000, {
+      url: '{origin}/api/source/{id}',
+      body: 'r=&d=embed.example.top&id={id}',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      urlPath: '$.data[-1].file',
+    });
+    const [url, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://embed.example.top/api/source/abc123');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('r=&d=embed.example.top&id=abc123');
+    expect((init.headers as Record<string, string>)['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(r?.url).toBe('https://cdn.example.top/v/720.m3u8');
+    expect(r?.headers?.Referer).toBe('https://embed.example.top/');
+  });
+
+  it('JSON-encodes an object body and GETs when there is no body', async () => {
+    vi.mocked(fetch).mockResolvedValue(Response.json(DOC));
+    await extractJsonApi('https://embed.example.top/v/1', 5000, { body: { id: '{id}' }, urlPath: '$.data[0].file' });
+    await extractJsonApi('https://embed.example.top/v/1', 5000, { urlPath: '$.data[0].file' });
+    const [first, second] = vi.mocked(fetch).mock.calls as Array<[string, RequestInit]>;
+    expect(first[1].body).toBe('{"id":"1"}');
+    expect((first[1].headers as Record<string, string>)['Content-Type']).toBe('application/json');
+    expect(second[0]).toBe('https://embed.example.top/v/1');
+    expect(second[1].method).toBe('GET');
+  });
+
+  it('resolves a relative URL against the endpoint and adds headers from other fields', async () => {
+    vi.mocked(fetch).mockResolvedValue(Response.json(DOC));
+    const r = await extractJsonApi('https://embed.example.top/v/1', 5000, {
+      url: 'https://api.example.top/src/{id}',
+      urlPath: '$.data[0].file',
+      headerPaths: { 'X-Token': "$['player-config'].token", 'X-Missing': '$.nope' },
+    });
+    expect(r?.url).toBe('https://api.example.top/v/360.m3u8');
+    expect(r?.headers).toMatchObject({ 'X-Token': 'abc', Origin: 'https://embed.example.top' });
+    expect(r?.headers).not.toHaveProperty('X-Missing');
+  });
+
+  it('returns null when the path selects nothing or the body is not JSON', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(Response.json({ data: [] }));
+    expect(await extractJsonApi('https://embed.example.top/v/1', 5000, { urlPath: '$.data[0].file' })).toBeNull();
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('<html>captcha</html>', { status: 200 }));
+    expect(await extractJsonApi('https://embed.example.top/v/1', 5000, { urlPath: '$.data[0].file' })).toBeNull();
+  });
+
+  it('refuses a non-http stream URL', async () => {
+    vi.mocked(fetch).mockResolvedValue(Response.json({ file: 'javascript:alert(1)' }));
+    expect(await extractJsonApi('https://embed.example.top/v/1', 5000, { urlPath: '$.file' })).toBeNull();
+  });
+
+  it('cancels the body of a non-200 response it never reads', async () => {
+    const res = new Response('error page', { status: 403 });
+    const cancel = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(res, 'body', { get: () => ({ cancel }) });
+    vi.mocked(fetch).mockResolvedValue(res);
+    expect(await extractJsonApi('https://embed.example.top/v/1', 5000, { urlPath: '$.file' })).toBeNull();
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,160 @@
+import consola from 'consola';
+import type { ExtractedStream } from '../extractor.js';
+import { safeFetch } from './safeFetch.js';
+import { defaultPlaybackHeaders, UA } from './httpToken.js';
+
+export interface JsonApiOptions {
+  // Endpoint, defaulting to the embed URL. `{origin}` and `{id}` (last path
+  // segment of the embed URL) are substituted, as they are in a string body.
+  url?: string;
+  method?: 'GET' | 'POST';
+  // Strings are sent as-is (set Content-Type in `headers`); objects are JSON-encoded
+  body?: string | Record<string, unknown>;
+  headers?: Record<string, string>;
+  // Path to the stream URL in the response, e.g. `$.data[0].file`
+  urlPath: string;
+  // Playback header name → path to a string field in the response
+  headerPaths?: Record<string, string>;
+}
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+const DOT_KEY = /^[A-Za-z_$][\w$-]*/;
+const BRACKET = /^\[\s*(?:(-?\d+)|\*|'((?:\\.|[^'\\])*)'|"((?:\\.|[^"\\])*)")\s*\]/;
+
+/**
+ * Parse the JSONPath subset the strategy supports: `$` root, `.key`,
+ * `['key']` / `["key"]`, `[n]` (negative counts from the end) and `*` /
+ * `[*]` wildcards. The leading `$` is optional. Throws SyntaxError.
+ */
+export function parseJsonPath(expr: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = expr.trim().replace(/^\$/, '');
+  // Bare `data.file` reads like `.data.file`
+  if (rest && rest[0] !== '.' && rest[0] !== '[') rest = `.${rest}`;
+  while (rest) {
+    const pos = expr.length - rest.length;
+    if (rest.startsWith('.*')) {
+      segments.push({ wildcard: true });
+      rest = rest.slice(2);
+    } else if (rest[0] === '.') {
+      const key = rest.slice(1).match(DOT_KEY);
+      if (!key) throw new SyntaxError(`Invalid JSON path ${JSON.stringify(expr)} at position ${pos}`);
+      segments.push({ key: key[0] });
+      rest = rest.slice(1 + key[0].length);
+    } else {
+      const m = rest.match(BRACKET);
+      if (!m) throw new SyntaxError(`Invalid JSON path ${JSON.stringify(expr)} at position ${pos}`);
+      if (m[1] !== undefined) segments.push({ index: parseInt(m[1], 10) });
+      else if (m[2] !== undefined || m[3] !== undefined) segments.push({ key: (m[2] ?? m[3]).replace(/\\(.)/g, '$1') });
+      else segments.push({ wildcard: true });
+      rest = rest.slice(m[0].length);
+    }
+  }
+  return segments;
+}
+
+/** Every value `expr` selects from `doc`, in document order. */
+export function evaluateJsonPath(doc: unknown, expr: string): unknown[] {
+  let values: unknown[] = [doc];
+  for (const seg of parseJsonPath(expr)) {
+    values = values.flatMap((v): unknown[] => {
+      if (v === null || typeof v !== 'object') return [];
+      if ('wildcard' in seg) return Array.isArray(v) ? v : Object.values(v);
+      if ('index' in seg) {
+        if (!Array.isArray(v)) return [];
+        const i = seg.index < 0 ? v.length + seg.index : seg.index;
+        return i in v ? [v[i]] : [];
+      }
+      return Object.prototype.hasOwnProperty.call(v, seg.key) ? [(v as Record<string, unknown>)[seg.key]] : [];
+    });
+  }
+  return values;
+}
+
+const isStringRecord = (v: unknown): v is Record<string, string> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && Object.values(v).every((s) => typeof s === 'string');
+
+/**
+ * Check a `jsonApi` option block from a request or profile. Returns an error
+ * message, or null if it is usable (including every path compiling).
+ */
+export function validateJsonApiOptions(v: unknown): string | null {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return 'jsonApi must be an object';
+  const o = v as Record<string, unknown>;
+  if (typeof o.urlPath !== 'string' || !o.urlPath) return 'jsonApi.urlPath must be a non-empty string';
+  if (o.url !== undefined && typeof o.url !== 'string') return 'jsonApi.url must be a string';
+  if (o.method !== undefined && o.method !== 'GET' && o.method !== 'POST') return 'jsonApi.method must be "GET" or "POST"';
+  if (o.body !== undefined && typeof o.body !== 'string' && (typeof o.body !== 'object' || o.body === null)) {
+    return 'jsonApi.body must be a string or an object';
+  }
+  if (o.headers !== undefined && !isStringRecord(o.headers)) return 'jsonApi.headers must map names to strings';
+  if (o.headerPaths !== undefined && !isStringRecord(o.headerPaths)) return 'jsonApi.headerPaths must map names to strings';
+  for (const path of [o.urlPath, ...Object.values(o.headerPaths ?? {})]) {
+    try {
+      parseJsonPath(path);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  return null;
+}
+
+function fillTemplate(template: string, embedUrl: URL): string {
+  const id = embedUrl.pathname.split('/').filter(Boolean).pop() ?? '';
+  return template.replace(/\{origin\}/g, embedUrl.origin).replace(/\{id\}/g, id);
+}
+
+const firstString = (doc: unknown, path: string): string | undefined =>
+  evaluateJsonPath(doc, path).find((v): v is string => typeof v === 'string' && v.length > 0);
+
+export async function extractJsonApi(
+  embedUrl: string,
+  timeout: number,
+  options?: JsonApiOptions,
+  proxy?: string
+): Promise<ExtractedStream | null> {
+  if (!options) { consola.debug('[json-api] no jsonApi options'); return null; }
+  const embed = new URL(embedUrl);
+  const apiUrl = options.url ? fillTemplate(options.url, embed) : embedUrl;
+  const method = options.method ?? (options.body !== undefined ? 'POST' : 'GET');
+  const body = options.body === undefined
+    ? undefined
+    : fillTemplate(typeof options.body === 'string' ? options.body : JSON.stringify(options.body), embed);
+  const headers: Record<string, string> = {
+    'User-Agent': UA,
+    Accept: 'application/json, text/plain, */*',
+    Referer: embedUrl,
+    ...(typeof options.body === 'object' ? { 'Content-Type': 'application/json' } : {}),
+    ...options.headers,
+  };
+
+  const res = await safeFetch(apiUrl, { timeout, method, body, headers, proxy });
+  if (!res) return null;
+  if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
+  let doc: unknown;
+  try {
+    doc = await res.json();
+  } catch {
+    consola.debug(`[json-api] ${apiUrl} did not return JSON`);
+    return null;
+  }
+
+  const raw = firstString(doc, options.urlPath);
+  if (!raw) { consola.debug(`[json-api] nothing at ${options.urlPath}`); return null; }
+  let url: URL;
+  try {
+    url = new URL(raw, apiUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const origin = embed.origin;
+  const playback = defaultPlaybackHeaders(origin);
+  for (const [name, path] of Object.entries(options.headerPaths ?? {})) {
+    const value = firstString(doc, path);
+    if (value) playback[name] = value;
+  }
+  return { url: url.toString(), headers: playback };
+}
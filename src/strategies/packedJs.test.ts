@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { unpackPacker, decodeBase64Literals, extractPackedJs } from './packedJs.js';
+
+// Minimal p.a.c.k.e.r. encoder (same word encoding as the real packer's `e`)
+function pack(source: string, radix = 62): string {
+  const encode = (c: number): string =>
+    (c < radix ? '' : encode(Math.floor(c / radix))) +
+    ((c = c % radix) > 35 ? String.fromCharCode(c + 29) : c.toString(36));
+  const words: string[] = [];
+  const payload = source.replace(/\b\w+\b/g, (w) => {
+    let i = words.indexOf(w);
+    if (i === -1) i = words.push(w) - 1;
+    return encode(i);
+  });
+  const escaped = payload.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  return `eval(function(p,a,c,k,e,d){e=function(c){return c.toString(36)};if(!''.replace(/^/,String)){while(c--){d[c.toString(a)]=k[c]||c.toString(a)}k=[function(e){return d[e]}];e=function(){return'\\\\w+'};c=1};while(c--){if(k[c]){p=p.replace(new RegExp('\\\\b'+e(c)+'\\\\b','g'),k[c])}}return p}('${escaped}',${radix},${words.length},'${words.join('|')}'.split('|'),0,{}))`;
+}
+
+const PLAYER_JS = `jwplayer("player").setup({file:"https://cdn.example.top/hls/abc123/index.m3u8?e=1786940364",autostart:true,width:'100%'});`;
+
+describe('unpackPacker', () => {
+  it('recovers the original script without running it', () => {
+    expect(unpackPacker(`<script>${pack(PLAYER_JS)}</script>`)).toEqual([PLAYER_JS]);
+  });
+  it('handles small radixes', () => {
+    expect(unpackPacker(pack(PLAYER_JS, 36))).toEqual([PLAYER_JS]);
+  });
+  it('unpacks a payload that was packed twice', () => {
+    const decoded = unpackPacker(pack(pack(PLAYER_JS)));
+    expect(decoded[decoded.length - 1]).toBe(PLAYER_JS);
+  });
+  it('returns nothing when there is no packer call', () => {
+    expect(unpackPacker('<script>var a = 1;</script>')).toEqual([]);
+  });
+});
+
+describe('decodeBase64Literals', () => {
+  const b64 = (s: string) => Buffer.from(s).toString('base64');
+  it('decodes atob() arguments', () => {
+    expect(decodeBase64Literals(`var s = atob('${b64('https://cdn.example.top/a.m3u8')}');`)).toEqual([
+      'https://cdn.example.top/a.m3u8',
+    ]);
+  });
+  it('decodes bare literals that look like base64 URLs', () => {
+    expect(decodeBase64Literals(`src: "${b64('https://cdn.example.top/b.m3u8')}"`)).toEqual([
+      'https://cdn.example.top/b.m3u8',
+    ]);
+  });
+  it('ignores ordinary strings', () => {
+    expect(decodeBase64Literals(`var s = "hello world"; var t = 'abcdefabcdefabcdef';`)).toEqual([]);
+  });
+});
+
+describe('extractPackedJs', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('finds the stream inside a packed script', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(`<script>${pack(PLAYER_JS)}</script>`, { status: 200 }));
+    const r = await extractPackedJs('https://embed.example.top/e/1', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/hls/abc123/index.m3u8?e=1786940364');
+    expect(r?.headers?.Origin).toBe('https://embed.example.top');
+  });
+  it('finds an atob-encoded URL inside a packed script, with escaped slashes', async () => {
+    const inner = `var u=atob("${Buffer.from('https:\\/\\/cdn.example.top\\/x\\/live.m3u8').toString('base64')}");`;
+    vi.mocked(fetch).mockResolvedValue(new Response(pack(inner), { status: 200 }));
+    const r = await extractPackedJs('https://embed.example.top/e/1', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/x/live.m3u8');
+  });
+  it('prefers the decoded URL over a plain-text decoy', async () => {
+    const html = `<a href="https://ads.example.net/promo.m3u8"></a><script>${pack(PLAYER_JS)}</script>`;
+    vi.mocked(fetch).mockResolvedValue(new Response(html, { status: 200 }));
+    const r = await extractPackedJs('https://embed.example.top/e/1', 5000);
+    expect(r?.url).toBe('https://cdn.example.top/hls/abc123/index.m3u8?e=1786940364');
+  });
+  it('honors a caller pattern over the decoded text', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(pack(PLAYER_JS), { status: 200 }));
+    const r = await extractPackedJs('https://embed.example.top/e/1', 5000, 'file:"([^"]+)"');
+    expect(r?.url).toBe('https://cdn.example.top/hls/abc123/index.m3u8?e=1786940364');
+  });
+  it('returns null when nothing decodes to a stream', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('<html>nothing</html>', { status: 200 }));
+    expect(await extractPackedJs('https://embed.example.top/e/1', 5000)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import consola from 'consola';
+import type { ExtractedStream } from '../extractor.js';
+import { safeFetch } from './safeFetch.js';
+import { defaultPlaybackHeaders, findStreamUrl, UA } from './httpToken.js';
+
+// Dean Edwards' packer: eval(function(p,a,c,k,e,d){...}('payload',radix,count,'k|e|y|s'.split('|'),0,{}))
+// Only the argument list is parsed; the packer function body is never run.
+const PACKER_CALL =
+  /eval\(function\(p,a,c,k,e,[rd]\)\{[\s\S]*?\}\(\s*(['"])((?:\\.|(?!\1)[^\\])*)\1\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(['"])((?:\\.|(?!\5)[^\\])*)\5\.split\(\s*['"]\|['"]\s*\)/g;
+const ATOB_CALL = /atob\(\s*(['"])([A-Za-z0-9+/=\s]+)\1\s*\)/g;
+// Bare literals that base64-decode to an http(s) URL ("http" → "aHR0c")
+const URL_BASE64_LITERAL = /(['"])(aHR0c[A-Za-z0-9+/]{12,}={0,2})\1/g;
+// Packed payloads are sometimes packed again
+const MAX_UNPACK_PASSES = 3;
+
+// Packer's base-N digits: 0-9, then a-z (10-35), then A-Z (36-61)
+function unbase(word: string, radix: number): number {
+  let n = 0;
+  for (const ch of word) {
+    const code = ch.charCodeAt(0);
+    const digit =
+      code >= 48 && code <= 57 ? code - 48
+        : code >= 97 && code <= 122 ? code - 87
+          : code >= 65 && code <= 90 ? code - 29
+            : NaN;
+    if (!(digit < radix)) return NaN;
+    n = n * radix + digit;
+  }
+  return n;
+}
+
+function unescapeJsString(s: string): string {
+  return s.replace(/\\(['"\\])/g, '$1');
+}
+
+/**
+ * Statically reverse every p.a.c.k.e.r. call in `source`: each base-`radix`
+ * word in the payload is swapped for its keyword. Returns the decoded
+ * scripts, innermost layer last.
+ */
+export function unpackPacker(source: string): string[] {
+  const out: string[] = [];
+  let pending = [source];
+  for (let pass = 0; pass < MAX_UNPACK_PASSES && pending.length > 0; pass++) {
+    const next: string[] = [];
+    for (const text of pending) {
+      for (const m of text.matchAll(PACKER_CALL)) {
+        const payload = unescapeJsString(m[2]);
+        const radix = parseInt(m[3], 10);
+        const count = parseInt(m[4], 10);
+        const keywords = unescapeJsString(m[6]).split('|');
+        if (radix < 2 || radix > 62) continue;
+        const decoded = payload.replace(/\b\w+\b/g, (word) => {
+          const i = unbase(word, radix);
+          return i < count && keywords[i] ? keywords[i] : word;
+        });
+        out.push(decoded);
+        next.push(decoded);
+      }
+    }
+    pending = next;
+  }
+  return out;
+}
+
+// `atob("...")` arguments and bare base64 literals that decode to a URL
+export function decodeBase64Literals(source: string): string[] {
+  const out = new Set<string>();
+  const decode = (b64: string) => Buffer.from(b64.replace(/\s+/g, ''), 'base64').toString('utf8');
+  // An atob() argument that is itself a URL literal would otherwise appear twice
+  for (const m of source.matchAll(ATOB_CALL)) out.add(decode(m[2]));
+  for (const m of source.matchAll(URL_BASE64_LITERAL)) out.add(decode(m[2]));
+  return [...out];
+}
+
+// Decoded JS frequently keeps JSON-style escaped slashes (https:\/\/...)
+function normalizeEscapes(text: string): string {
+  return text.replace(/\\\//g, '/');
+}
+
+export async function extractPackedJs(
+  embedUrl: string,
+  timeout: number,
+  pattern?: string,
+  proxy?: string
+): Promise<ExtractedStream | null> {
+  const res = await safeFetch(embedUrl, { timeout, headers: { 'User-Agent': UA }, proxy });
+  if (!res) return null;
+  if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
+  const html = await res.text();
+
+  const unpacked = unpackPacker(html);
+  // base64 literals can live in the page or inside an unpacked script
+  const decoded = [...unpacked, ...[html, ...unpacked].flatMap(decodeBase64Literals)];
+  consola.debug(`[packed-js] decoded ${unpacked.length} packed script(s), ${decoded.length - unpacked.length} base64 literal(s)`);
+
+  // Decoded text first: a plain-text URL on the page is more likely a decoy or ad
+  for (const text of [...decoded, html]) {
+    const url = findStreamUrl(normalizeEscapes(text), pattern);
+    if (url) {
+      const origin = new URL(embedUrl).origin;
+      return { url, headers: defaultPlaybackHeaders(origin) };
+    }
+  }
+  consola.debug('[packed-js] no match in decoded text');
+  return null;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { registerStrategy, getStrategy, listStrategies, strategyOptions, validateStrategyRequest, loadStrategyDirectory } from './registry.js';
+
+const run = vi.fn().mockResolvedValue(null);
+
+function writeModules(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'strategies-'));
+  for (const [name, source] of Object.entries(files)) writeFileSync(join(dir, name), source);
+  return dir;
+}
+
+describe('registerStrategy', () => {
+  it('registers a definition and lists it', () => {
+    registerStrategy({ name: 'reg-basic', queue: 'light', run });
+    expect(getStrategy('reg-basic')?.queue).toBe('light');
+    expect(listStrategies().map((s) => s.name)).toContain('reg-basic');
+  });
+  it('refuses a name that is already taken', () => {
+    registerStrategy({ name: 'reg-dup', queue: 'light', run });
+    expect(() => registerStrategy({ name: 'reg-dup', queue: 'browser', run })).toThrow('already registered');
+  });
+  it.each([
+    [{ name: 'Bad Name', queue: 'light', run }, 'invalid name'],
+    [{ name: 'reg-q', queue: 'gpu', run }, 'queue'],
+    [{ name: 'reg-run', queue: 'light' }, 'run'],
+    [{ name: 'reg-opt', queue: 'light', run, options: { x: {} } }, 'option x'],
+    [{ name: 'reg-reserved', queue: 'light', run, options: { timeout: { validate: () => null } } }, 'option timeout is reserved'],
+    [{ name: 'reg-reserved-2', queue: 'light', run, options: { verify: { validate: () => null } } }, 'option verify is reserved'],
+  ])('rejects a malformed definition (%#)', (def, message) => {
+    expect(() => registerStrategy(def as never)).toThrow(message);
+  });
+});
+
+describe('validateStrategyRequest', () => {
+  registerStrategy({
+    name: 'reg-validate',
+    queue: 'light',
+    options: {
+      videoId: { validate: (v) => (typeof v === 'string' ? null : 'videoId must be a string'), required: true },
+      quality: { validate: (v) => (v === 'hd' || v === 'sd' ? null : 'quality must be hd or sd') },
+    },
+    run,
+  });
+
+  it('accepts a request whose options all validate', () => {
+    expect(validateStrategyRequest('reg-validate', { videoId: 'a', quality: 'hd' })).toBeNull();
+  });
+  it('reports unknown strategies and missing required options', () => {
+    expect(validateStrategyRequest('nope', {})).toBe('Unknown strategy: nope');
+    expect(validateStrategyRequest('reg-validate', {})).toBe('videoId is required for the reg-validate strategy');
+  });
+  it('validates options declared by other strategies too', () => {
+    registerStrategy({ name: 'reg-other', queue: 'light', run });
+    expect(validateStrategyRequest('reg-other', { quality: '4k' })).toBe('quality must be hd or sd');
+    expect(strategyOptions().has('videoId')).toBe(true);
+  });
+  it("checks a field the chosen strategy declares with that strategy's own validator", () => {
+    registerStrategy({
+      name: 'reg-strict',
+      queue: 'light',
+      options: { quality: { validate: (v) => (v === 'hd' ? null : 'reg-strict only plays hd') } },
+      run,
+    });
+    expect(validateStrategyRequest('reg-strict', { quality: 'sd' })).toBe('reg-strict only plays hd');
+    expect(validateStrategyRequest('reg-other', { quality: 'sd' })).toBeNull();
+  });
+});
+
+describe('loadStrategyDirectory', () => {
+  it('imports default and named exports, skipping broken modules and other files', async () => {
+    const dir = writeModules({
+      'a-single.mjs': `export default { name: 'dir-one', queue: 'light', run: async () => ({ url: 'https://x/1.m3u8' }) };`,
+      'b-list.mjs': `export const strategies = [
+        { name: 'dir-two', queue: 'browser', run: async () => null },
+        { name: 'Dir Bad', queue: 'light', run: async () => null },
+      ];`,
+      'c-broken.mjs': `throw new Error('boom');`,
+      'd-notes.txt': 'not a module',
+    });
+    expect(await loadStrategyDirectory(dir)).toEqual(['dir-one', 'dir-two']);
+    expect(await getStrategy('dir-one')?.run('u', { timeout: 1, priority: 0, strategy: 'dir-one' })).toEqual({ url: 'https://x/1.m3u8' });
+    expect(getStrategy('dir-two')?.queue).toBe('browser');
+  });
+  it('loads nothing when unset or unreadable', async () => {
+    expect(await loadStrategyDirectory(undefined)).toEqual([]);
+    expect(await loadStrategyDirectory('/nonexistent/strategies')).toEqual([]);
+  });
+});
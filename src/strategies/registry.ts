@@ -0,0 +1,149 @@
+import { readdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import consola from 'consola';
+import type { ExtractedStream } from '../extractor.js';
+import type { DispatchOpts } from './index.js';
+
+/**
+ * `light` strategies are plain HTTP work: the dispatcher runs them on the
+ * light queue. `browser` strategies get no wrapper and must take their own
+ * Chrome slot (via browserPool); the route also reports their misses as
+ * `timeout` rather than `pattern_miss`.
+ */
+export type QueueClass = 'light' | 'browser';
+
+export interface StrategyOption {
+  // Error message for an unusable value, or null. Only called for values that are present.
+  validate(value: unknown): string | null;
+  required?: boolean;
+}
+
+export interface StrategyDefinition {
+  name: string;
+  queue: QueueClass;
+  // Request fields the strategy reads. The route takes each from the request
+  // body and rejects the request if a validator fails. Host profiles only
+  // carry the built-in fields, so a plugin's own options come from the body.
+  options?: Record<string, StrategyOption>;
+  run(embedUrl: string, opts: DispatchOpts): Promise<ExtractedStream | null>;
+}
+
+const STRATEGY_NAME = /^[a-z0-9][a-z0-9-]*$/;
+const MODULE_EXTENSIONS = /\.(m?js|cjs)$/;
+// Set by the route itself; a same-named option would be overwritten or clobber them
+const RESERVED_OPTIONS = new Set(['timeout', 'priority', 'strategy', 'queueEnqueueTime', 'verify', 'parsePlaylist']);
+
+const strategies = new Map<string, StrategyDefinition>();
+
+function definitionError(def: unknown): string | null {
+  if (typeof def !== 'object' || def === null) return 'not an object';
+  const d = def as Partial<StrategyDefinition>;
+  if (typeof d.name !== 'string' || !STRATEGY_NAME.test(d.name)) return `invalid name ${JSON.stringify(d.name)}`;
+  if (d.queue !== 'light' && d.queue !== 'browser') return `${d.name}: queue must be "light" or "browser"`;
+  if (typeof d.run !== 'function') return `${d.name}: run must be a function`;
+  for (const [field, option] of Object.entries(d.options ?? {})) {
+    if (RESERVED_OPTIONS.has(field)) return `${d.name}: option ${field} is reserved`;
+    if (typeof option?.validate !== 'function') return `${d.name}: option ${field} has no validate function`;
+  }
+  return null;
+}
+
+/** Add a strategy. Throws on a malformed definition or a name already taken. */
+export function registerStrategy(def: StrategyDefinition): void {
+  const error = definitionError(def);
+  if (error) throw new Error(`Invalid strategy definition: ${error}`);
+  if (strategies.has(def.name)) throw new Error(`Strategy already registered: ${def.name}`);
+  strategies.set(def.name, def);
+}
+
+export function getStrategy(name: string): StrategyDefinition | undefined {
+  return strategies.get(name);
+}
+
+export function listStrategies(): StrategyDefinition[] {
+  return [...strategies.values()];
+}
+
+/**
+ * Every option any registered strategy declares, first declaration wins.
+ * Options are collected and validated for the whole request rather than per
+ * strategy so `auto` and profiles can carry fields for several strategies.
+ */
+export function strategyOptions(): Map<string, StrategyOption> {
+  const out = new Map<string, StrategyOption>();
+  for (const def of strategies.values()) {
+    for (const [field, option] of Object.entries(def.options ?? {})) {
+      if (!out.has(field)) out.set(field, option);
+    }
+  }
+  return out;
+}
+
+/**
+ * Check a request against the registry: the strategy must exist, every
+ * present option must pass its validator, and the chosen strategy's required
+ * options must be set. A field the chosen strategy declares itself is checked
+ * with its own validator, so it can be stricter (or looser) than the first
+ * declaration. Returns an error message or null.
+ */
+export function validateStrategyRequest(name: string, values: Record<string, unknown>): string | null {
+  const def = strategies.get(name);
+  if (!def) return `Unknown strategy: ${name}`;
+  for (const [field, option] of Object.entries(def.options ?? {})) {
+    if (option.required && values[field] === undefined) return `${field} is required for the ${name} strategy`;
+  }
+  for (const field of strategyOptions().keys()) {
+    if (values[field] === undefined) continue;
+    const error = optionValidator(name, field)!.validate(values[field]);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * The validator `validateStrategyRequest` applies to `field` for strategy
+ * `name`: the strategy's own declaration, else the first one registered.
+ * Undefined when no strategy declares the field.
+ */
+export function optionValidator(name: string, field: string): StrategyOption | undefined {
+  return strategies.get(name)?.options?.[field] ?? strategyOptions().get(field);
+}
+
+/**
+ * Import every `.js`/`.mjs`/`.cjs` module in `dir` and register the
+ * strategies it exports (`default` or `strategies`, one definition or an
+ * array). Like the profiles file, a bad module is logged and skipped so one
+ * broken adapter can't stop the worker from booting. Returns the names added.
+ */
+export async function loadStrategyDirectory(dir: string | undefined): Promise<string[]> {
+  if (!dir) return [];
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => MODULE_EXTENSIONS.test(f)).sort();
+  } catch (err) {
+    consola.error(`[Strategies] Could not read ${dir}, continuing with built-in strategies:`, err);
+    return [];
+  }
+  const added: string[] = [];
+  for (const file of files) {
+    const path = resolve(join(dir, file));
+    try {
+      const mod = await import(pathToFileURL(path).href);
+      const exported: unknown = mod.strategies ?? mod.default;
+      const defs = Array.isArray(exported) ? exported : [exported];
+      for (const def of defs) {
+        try {
+          registerStrategy(def as StrategyDefinition);
+          added.push((def as StrategyDefinition).name);
+        } catch (err) {
+          consola.error(`[Strategies] ${file}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    } catch (err) {
+      consola.error(`[Strategies] Could not load ${file}:`, err);
+    }
+  }
+  if (added.length > 0) consola.info(`[Strategies] Loaded ${added.join(', ')} from ${dir}`);
+  return added;
+}
@@ -86,4 +86,40 @@ describe('safeFetch', () => {
     await safeFetch('https://embed.example.top/a', { timeout: 5000 });
     expect(vi.getTimerCount()).toBe(0);
   });
+
+  it('keeps a POST body across a 307 and drops it on a 302', async () => {
+    const calls: Array<{ method?: string; body?: unknown }> = [];
+    vi.mocked(fetch).mockImplementation(async (_url: any, init: any) => {
+      calls.push({ method: init?.method, body: init?.body });
+      if (calls.length === 1) return new Response(null, { status: 307, headers: { location: '/b' } });
+      if (calls.length === 2) return new Response(null, { status: 302, headers: { location: '/c' } });
+      return new Response('ok', { status: 200 });
+    });
+    await safeFetch('https://embed.example.top/a', { timeout: 5000, method: 'POST', body: 'r=1' });
+    expect(calls).toEqual([
+      { method: 'POST', body: 'r=1' },
+      { method: 'POST', body: 'r=1' },
+      { method: 'GET', body: undefined },
+    ]);
+  });
+
+  it('sends every hop through the proxy dispatcher', async () => {
+    const dispatchers: unknown[] = [];
+    vi.mocked(fetch).mockImplementation(async (_url: any, init: any) => {
+      dispatchers.push(init?.dispatcher);
+      return dispatchers.length === 1
+        ? new Response(null, { status: 302, headers: { location: '/final' } })
+        : new Response('ok', { status: 200 });
+    });
+    await safeFetch('https://embed.example.top/a', { timeout: 5000, proxy: 'http://proxy.example:3128' });
+    expect(dispatchers).toHaveLength(2);
+    expect(dispatchers[0]).toBeDefined();
+    expect(dispatchers[0]).toBe(dispatchers[1]);
+  });
+
+  it('uses the default dispatcher without a proxy', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('ok', { status: 200 }));
+    await safeFetch('https://embed.example.top/a', { timeout: 5000 });
+    expect(vi.mocked(fetch).mock.calls[0][1]).not.toHaveProperty('dispatcher');
+  });
 });
